@@ -0,0 +1,29 @@
+module.exports = class Data1792311849555 {
+    name = 'Data1792311849555'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "vault_liquidation" ("id" character varying NOT NULL, "issued_tokens" numeric NOT NULL, "to_be_issued_tokens" numeric NOT NULL, "to_be_redeemed_tokens" numeric NOT NULL, "to_be_replaced_tokens" numeric NOT NULL, "backing_collateral" numeric NOT NULL, "backing_collateral_human" numeric NOT NULL, "replace_collateral" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_9cd81cdc9bcc5031b33f646f3cd" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_d05a98fbecb083db91fa8d07b4" ON "vault_liquidation" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_e43f3acbfcf8dbea59bee27f44" ON "vault_liquidation" ("height_id") `)
+        await db.query(`CREATE TABLE "vault_ban" ("id" character varying NOT NULL, "banned_until" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_6f52e869991ac9d2eb8d74ad2f8" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_b97131ba39132d97343be6abb9" ON "vault_ban" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_619cc58331ea63d5fdee145f17" ON "vault_ban" ("height_id") `)
+        await db.query(`ALTER TABLE "vault_liquidation" ADD CONSTRAINT "FK_d05a98fbecb083db91fa8d07b4e" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_liquidation" ADD CONSTRAINT "FK_e43f3acbfcf8dbea59bee27f442" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_ban" ADD CONSTRAINT "FK_b97131ba39132d97343be6abb96" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_ban" ADD CONSTRAINT "FK_619cc58331ea63d5fdee145f17b" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "vault_liquidation"`)
+        await db.query(`DROP INDEX "public"."IDX_d05a98fbecb083db91fa8d07b4"`)
+        await db.query(`DROP INDEX "public"."IDX_e43f3acbfcf8dbea59bee27f44"`)
+        await db.query(`DROP TABLE "vault_ban"`)
+        await db.query(`DROP INDEX "public"."IDX_b97131ba39132d97343be6abb9"`)
+        await db.query(`DROP INDEX "public"."IDX_619cc58331ea63d5fdee145f17"`)
+        await db.query(`ALTER TABLE "vault_liquidation" DROP CONSTRAINT "FK_d05a98fbecb083db91fa8d07b4e"`)
+        await db.query(`ALTER TABLE "vault_liquidation" DROP CONSTRAINT "FK_e43f3acbfcf8dbea59bee27f442"`)
+        await db.query(`ALTER TABLE "vault_ban" DROP CONSTRAINT "FK_b97131ba39132d97343be6abb96"`)
+        await db.query(`ALTER TABLE "vault_ban" DROP CONSTRAINT "FK_619cc58331ea63d5fdee145f17b"`)
+    }
+}
@@ -0,0 +1,21 @@
+module.exports = class Data1792312032659 {
+    name = 'Data1792312032659'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "vault_balance_snapshot" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "locked_collateral" numeric NOT NULL, "locked_collateral_human" numeric NOT NULL, "issued_tokens" numeric NOT NULL, "issued_tokens_human" numeric NOT NULL, "to_be_issued_tokens" numeric NOT NULL, "to_be_redeemed_tokens" numeric NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_e7cbb8a19f379dadc193706a2aa" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_795cc04d247ab433d6d12a1184" ON "vault_balance_snapshot" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_c49a687385167bd4fd777c8636" ON "vault_balance_snapshot" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_f09667c57f5654e98564a6b8a9" ON "vault_balance_snapshot" ("timestamp") `)
+        await db.query(`ALTER TABLE "vault_balance_snapshot" ADD CONSTRAINT "FK_795cc04d247ab433d6d12a11846" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_balance_snapshot" ADD CONSTRAINT "FK_c49a687385167bd4fd777c8636d" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "vault_balance_snapshot"`)
+        await db.query(`DROP INDEX "public"."IDX_795cc04d247ab433d6d12a1184"`)
+        await db.query(`DROP INDEX "public"."IDX_c49a687385167bd4fd777c8636"`)
+        await db.query(`DROP INDEX "public"."IDX_f09667c57f5654e98564a6b8a9"`)
+        await db.query(`ALTER TABLE "vault_balance_snapshot" DROP CONSTRAINT "FK_795cc04d247ab433d6d12a11846"`)
+        await db.query(`ALTER TABLE "vault_balance_snapshot" DROP CONSTRAINT "FK_c49a687385167bd4fd777c8636d"`)
+    }
+}
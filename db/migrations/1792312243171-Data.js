@@ -0,0 +1,21 @@
+module.exports = class Data1792312243171 {
+    name = 'Data1792312243171'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "vault_collateralization" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "locked_collateral" numeric NOT NULL, "issued_tokens" numeric NOT NULL, "collateral_value_btc" numeric NOT NULL, "collateralization_ratio" numeric, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_a4051f40482a450f99ae805f031" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_b054431246a6482208ae67cc45" ON "vault_collateralization" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_c9b18d42f9565781fe7f86abfc" ON "vault_collateralization" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_0466428b23865d48c4ce7147cd" ON "vault_collateralization" ("timestamp") `)
+        await db.query(`ALTER TABLE "vault_collateralization" ADD CONSTRAINT "FK_b054431246a6482208ae67cc459" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_collateralization" ADD CONSTRAINT "FK_c9b18d42f9565781fe7f86abfc7" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "vault_collateralization"`)
+        await db.query(`DROP INDEX "public"."IDX_b054431246a6482208ae67cc45"`)
+        await db.query(`DROP INDEX "public"."IDX_c9b18d42f9565781fe7f86abfc"`)
+        await db.query(`DROP INDEX "public"."IDX_0466428b23865d48c4ce7147cd"`)
+        await db.query(`ALTER TABLE "vault_collateralization" DROP CONSTRAINT "FK_b054431246a6482208ae67cc459"`)
+        await db.query(`ALTER TABLE "vault_collateralization" DROP CONSTRAINT "FK_c9b18d42f9565781fe7f86abfc7"`)
+    }
+}
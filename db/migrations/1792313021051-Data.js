@@ -0,0 +1,61 @@
+module.exports = class Data1792313021051 {
+    name = 'Data1792313021051'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "replace_offer" ("id" character varying NOT NULL, "type" character varying(9) NOT NULL, "amount" numeric NOT NULL, "griefing_collateral" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_8c19b0cfa9ef9a3aa8b85adec22" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_cbe70e6995a32e0d6845dc2405" ON "replace_offer" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_db552c8c92534cf63bcf930318" ON "replace_offer" ("height_id") `)
+        await db.query(`CREATE TABLE "replace_period" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "value" integer NOT NULL, "height_id" character varying, CONSTRAINT "PK_e69c4399fecc594eab9f3f3b52b" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_e30d3c9f0df3eb2455328a1fac" ON "replace_period" ("height_id") `)
+        await db.query(`CREATE TABLE "replace_execution" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "replace_id" character varying NOT NULL, "height_id" character varying, CONSTRAINT "REL_7d57bd844dc41d0b36027ab34e" UNIQUE ("replace_id"), CONSTRAINT "PK_e131c9e13a045a455f62fe2c9f9" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE UNIQUE INDEX "IDX_7d57bd844dc41d0b36027ab34e" ON "replace_execution" ("replace_id") `)
+        await db.query(`CREATE INDEX "IDX_8834e953d3a00c2c0c66f52fbc" ON "replace_execution" ("height_id") `)
+        await db.query(`CREATE TABLE "replace_cancellation" ("id" character varying NOT NULL, "griefing_collateral" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "replace_id" character varying NOT NULL, "height_id" character varying, CONSTRAINT "REL_3cb24d0c5c2755b46ff843db95" UNIQUE ("replace_id"), CONSTRAINT "PK_f8f997ddc78034341fb8854fad8" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE UNIQUE INDEX "IDX_3cb24d0c5c2755b46ff843db95" ON "replace_cancellation" ("replace_id") `)
+        await db.query(`CREATE INDEX "IDX_059aebea4c4e95928517c2291d" ON "replace_cancellation" ("height_id") `)
+        await db.query(`CREATE TABLE "replace" ("id" character varying NOT NULL, "request" jsonb NOT NULL, "collateral" numeric NOT NULL, "btc_address" text NOT NULL, "status" character varying(9), "old_vault_id" character varying, "new_vault_id" character varying, "period_id" character varying, CONSTRAINT "PK_02bc681889cc211ef90a4503ba9" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_6b3b12d8eb29bce1f2cd8d32f0" ON "replace" ("old_vault_id") `)
+        await db.query(`CREATE INDEX "IDX_893d081274adda4aa352c480b9" ON "replace" ("new_vault_id") `)
+        await db.query(`CREATE INDEX "IDX_e69c4399fecc594eab9f3f3b52" ON "replace" ("period_id") `)
+        await db.query(`CREATE INDEX "IDX_16eab3c7246a4a7780625bcd05" ON "replace" ("status") `)
+        await db.query(`ALTER TABLE "replace_offer" ADD CONSTRAINT "FK_cbe70e6995a32e0d6845dc24051" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_offer" ADD CONSTRAINT "FK_db552c8c92534cf63bcf9303182" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_period" ADD CONSTRAINT "FK_e30d3c9f0df3eb2455328a1fac1" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_execution" ADD CONSTRAINT "FK_7d57bd844dc41d0b36027ab34e2" FOREIGN KEY ("replace_id") REFERENCES "replace"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_execution" ADD CONSTRAINT "FK_8834e953d3a00c2c0c66f52fbcb" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_cancellation" ADD CONSTRAINT "FK_3cb24d0c5c2755b46ff843db954" FOREIGN KEY ("replace_id") REFERENCES "replace"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace_cancellation" ADD CONSTRAINT "FK_059aebea4c4e95928517c2291d0" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace" ADD CONSTRAINT "FK_6b3b12d8eb29bce1f2cd8d32f06" FOREIGN KEY ("old_vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace" ADD CONSTRAINT "FK_893d081274adda4aa352c480b9c" FOREIGN KEY ("new_vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "replace" ADD CONSTRAINT "FK_e69c4399fecc594eab9f3f3b52b" FOREIGN KEY ("period_id") REFERENCES "replace_period"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "replace_offer"`)
+        await db.query(`DROP INDEX "public"."IDX_cbe70e6995a32e0d6845dc2405"`)
+        await db.query(`DROP INDEX "public"."IDX_db552c8c92534cf63bcf930318"`)
+        await db.query(`DROP TABLE "replace_period"`)
+        await db.query(`DROP INDEX "public"."IDX_e30d3c9f0df3eb2455328a1fac"`)
+        await db.query(`DROP TABLE "replace_execution"`)
+        await db.query(`DROP INDEX "public"."IDX_7d57bd844dc41d0b36027ab34e"`)
+        await db.query(`DROP INDEX "public"."IDX_8834e953d3a00c2c0c66f52fbc"`)
+        await db.query(`DROP TABLE "replace_cancellation"`)
+        await db.query(`DROP INDEX "public"."IDX_3cb24d0c5c2755b46ff843db95"`)
+        await db.query(`DROP INDEX "public"."IDX_059aebea4c4e95928517c2291d"`)
+        await db.query(`DROP TABLE "replace"`)
+        await db.query(`DROP INDEX "public"."IDX_6b3b12d8eb29bce1f2cd8d32f0"`)
+        await db.query(`DROP INDEX "public"."IDX_893d081274adda4aa352c480b9"`)
+        await db.query(`DROP INDEX "public"."IDX_e69c4399fecc594eab9f3f3b52"`)
+        await db.query(`DROP INDEX "public"."IDX_16eab3c7246a4a7780625bcd05"`)
+        await db.query(`ALTER TABLE "replace_offer" DROP CONSTRAINT "FK_cbe70e6995a32e0d6845dc24051"`)
+        await db.query(`ALTER TABLE "replace_offer" DROP CONSTRAINT "FK_db552c8c92534cf63bcf9303182"`)
+        await db.query(`ALTER TABLE "replace_period" DROP CONSTRAINT "FK_e30d3c9f0df3eb2455328a1fac1"`)
+        await db.query(`ALTER TABLE "replace_execution" DROP CONSTRAINT "FK_7d57bd844dc41d0b36027ab34e2"`)
+        await db.query(`ALTER TABLE "replace_execution" DROP CONSTRAINT "FK_8834e953d3a00c2c0c66f52fbcb"`)
+        await db.query(`ALTER TABLE "replace_cancellation" DROP CONSTRAINT "FK_3cb24d0c5c2755b46ff843db954"`)
+        await db.query(`ALTER TABLE "replace_cancellation" DROP CONSTRAINT "FK_059aebea4c4e95928517c2291d0"`)
+        await db.query(`ALTER TABLE "replace" DROP CONSTRAINT "FK_6b3b12d8eb29bce1f2cd8d32f06"`)
+        await db.query(`ALTER TABLE "replace" DROP CONSTRAINT "FK_893d081274adda4aa352c480b9c"`)
+        await db.query(`ALTER TABLE "replace" DROP CONSTRAINT "FK_e69c4399fecc594eab9f3f3b52b"`)
+    }
+}
@@ -0,0 +1,43 @@
+module.exports = class Data1792313320398 {
+    name = 'Data1792313320398'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "nomination" ("id" character varying NOT NULL, "nominator_id" text NOT NULL, "amount" numeric NOT NULL, "amount_human" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_52e10255e966818cbebfc0f1144" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_3fc8dbd09268c8217c7997731c" ON "nomination" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_94997d6a069b45cc0b1abf1b6b" ON "nomination" ("nominator_id") `)
+        await db.query(`CREATE INDEX "IDX_f5fec77bf34d154eb2bc915e83" ON "nomination" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_722b96f742c60ce51c9cb292e2" ON "nomination" ("timestamp") `)
+        await db.query(`CREATE TABLE "nomination_opt_change" ("id" character varying NOT NULL, "opted_in" boolean NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_5235ddf36b459cd9460ba39eccc" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_7f2a1f70bd89197967aad802d8" ON "nomination_opt_change" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_cb1a700c963aa7495100670d56" ON "nomination_opt_change" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_af96936b3bb1e68535ac417638" ON "nomination_opt_change" ("timestamp") `)
+        await db.query(`CREATE TABLE "cumulative_nominated_collateral" ("id" character varying NOT NULL, "till_timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "amount" numeric NOT NULL, "amount_human" numeric NOT NULL, "vault_id" character varying, CONSTRAINT "PK_1cf1f09e69703e20a8ae0961b5e" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_6c72aca165876a4fe94b5557b1" ON "cumulative_nominated_collateral" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_8ad838b2ddc27f88c66e9149a4" ON "cumulative_nominated_collateral" ("till_timestamp") `)
+        await db.query(`ALTER TABLE "nomination" ADD CONSTRAINT "FK_3fc8dbd09268c8217c7997731c0" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "nomination" ADD CONSTRAINT "FK_f5fec77bf34d154eb2bc915e83d" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "nomination_opt_change" ADD CONSTRAINT "FK_7f2a1f70bd89197967aad802d86" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "nomination_opt_change" ADD CONSTRAINT "FK_cb1a700c963aa7495100670d566" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "cumulative_nominated_collateral" ADD CONSTRAINT "FK_6c72aca165876a4fe94b5557b17" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "nomination"`)
+        await db.query(`DROP INDEX "public"."IDX_3fc8dbd09268c8217c7997731c"`)
+        await db.query(`DROP INDEX "public"."IDX_94997d6a069b45cc0b1abf1b6b"`)
+        await db.query(`DROP INDEX "public"."IDX_f5fec77bf34d154eb2bc915e83"`)
+        await db.query(`DROP INDEX "public"."IDX_722b96f742c60ce51c9cb292e2"`)
+        await db.query(`DROP TABLE "nomination_opt_change"`)
+        await db.query(`DROP INDEX "public"."IDX_7f2a1f70bd89197967aad802d8"`)
+        await db.query(`DROP INDEX "public"."IDX_cb1a700c963aa7495100670d56"`)
+        await db.query(`DROP INDEX "public"."IDX_af96936b3bb1e68535ac417638"`)
+        await db.query(`DROP TABLE "cumulative_nominated_collateral"`)
+        await db.query(`DROP INDEX "public"."IDX_6c72aca165876a4fe94b5557b1"`)
+        await db.query(`DROP INDEX "public"."IDX_8ad838b2ddc27f88c66e9149a4"`)
+        await db.query(`ALTER TABLE "nomination" DROP CONSTRAINT "FK_3fc8dbd09268c8217c7997731c0"`)
+        await db.query(`ALTER TABLE "nomination" DROP CONSTRAINT "FK_f5fec77bf34d154eb2bc915e83d"`)
+        await db.query(`ALTER TABLE "nomination_opt_change" DROP CONSTRAINT "FK_7f2a1f70bd89197967aad802d86"`)
+        await db.query(`ALTER TABLE "nomination_opt_change" DROP CONSTRAINT "FK_cb1a700c963aa7495100670d566"`)
+        await db.query(`ALTER TABLE "cumulative_nominated_collateral" DROP CONSTRAINT "FK_6c72aca165876a4fe94b5557b17"`)
+    }
+}
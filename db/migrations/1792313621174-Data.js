@@ -0,0 +1,23 @@
+module.exports = class Data1792313621174 {
+    name = 'Data1792313621174'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "reward_accrual" ("id" character varying NOT NULL, "type" character varying(11) NOT NULL, "account_id" text NOT NULL, "currency" jsonb NOT NULL, "currency_symbol" text NOT NULL, "amount" numeric NOT NULL, "amount_human" numeric NOT NULL, "amount_btc" numeric, "amount_usdt" numeric, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_7857f732b5df9e0e8b6da934d98" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_3effa6bfa15d699c0169dcecd9" ON "reward_accrual" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_b1b9b08d1b77a862ffc3dce2ce" ON "reward_accrual" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_d4634fcf4bed7954a840912ba2" ON "reward_accrual" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_ad2dcfec8f9908828df939058c" ON "reward_accrual" ("timestamp") `)
+        await db.query(`ALTER TABLE "reward_accrual" ADD CONSTRAINT "FK_b1b9b08d1b77a862ffc3dce2cea" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "reward_accrual" ADD CONSTRAINT "FK_d4634fcf4bed7954a840912ba2e" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "reward_accrual"`)
+        await db.query(`DROP INDEX "public"."IDX_3effa6bfa15d699c0169dcecd9"`)
+        await db.query(`DROP INDEX "public"."IDX_b1b9b08d1b77a862ffc3dce2ce"`)
+        await db.query(`DROP INDEX "public"."IDX_d4634fcf4bed7954a840912ba2"`)
+        await db.query(`DROP INDEX "public"."IDX_ad2dcfec8f9908828df939058c"`)
+        await db.query(`ALTER TABLE "reward_accrual" DROP CONSTRAINT "FK_b1b9b08d1b77a862ffc3dce2cea"`)
+        await db.query(`ALTER TABLE "reward_accrual" DROP CONSTRAINT "FK_d4634fcf4bed7954a840912ba2e"`)
+    }
+}
@@ -0,0 +1,19 @@
+module.exports = class Data1792313861952 {
+    name = 'Data1792313861952'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "escrow_lock" ("id" character varying NOT NULL, "account_id" text NOT NULL, "amount" numeric NOT NULL, "amount_human" numeric NOT NULL, "unlock_height" integer NOT NULL, "slope" numeric NOT NULL, "bias" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "height_id" character varying, CONSTRAINT "PK_523dc9331d6dff1ed3ac74716ad" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_997fbc1f6357d12b183e855e18" ON "escrow_lock" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_92bdfd49cb99492952db570a79" ON "escrow_lock" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_96fd41dd1f4e19d10fe8c6cadb" ON "escrow_lock" ("timestamp") `)
+        await db.query(`ALTER TABLE "escrow_lock" ADD CONSTRAINT "FK_92bdfd49cb99492952db570a798" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "escrow_lock"`)
+        await db.query(`DROP INDEX "public"."IDX_997fbc1f6357d12b183e855e18"`)
+        await db.query(`DROP INDEX "public"."IDX_92bdfd49cb99492952db570a79"`)
+        await db.query(`DROP INDEX "public"."IDX_96fd41dd1f4e19d10fe8c6cadb"`)
+        await db.query(`ALTER TABLE "escrow_lock" DROP CONSTRAINT "FK_92bdfd49cb99492952db570a798"`)
+    }
+}
@@ -0,0 +1,21 @@
+module.exports = class Data1792314099572 {
+    name = 'Data1792314099572'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "loan_position" ("id" character varying NOT NULL, "account_id" text NOT NULL, "supplied" numeric NOT NULL, "borrowed" numeric NOT NULL, "collateral" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "market_id" character varying, "height_id" character varying, CONSTRAINT "PK_a260ba774ad50716972c2cda717" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_9f07226e555395bfdfd865b9b0" ON "loan_position" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_e2cf04d65d0b9f7fd2f7ca0bdc" ON "loan_position" ("market_id") `)
+        await db.query(`CREATE INDEX "IDX_84e8113223ae14f95a017ac598" ON "loan_position" ("height_id") `)
+        await db.query(`ALTER TABLE "loan_position" ADD CONSTRAINT "FK_e2cf04d65d0b9f7fd2f7ca0bdc2" FOREIGN KEY ("market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_position" ADD CONSTRAINT "FK_84e8113223ae14f95a017ac598d" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "loan_position"`)
+        await db.query(`DROP INDEX "public"."IDX_9f07226e555395bfdfd865b9b0"`)
+        await db.query(`DROP INDEX "public"."IDX_e2cf04d65d0b9f7fd2f7ca0bdc"`)
+        await db.query(`DROP INDEX "public"."IDX_84e8113223ae14f95a017ac598"`)
+        await db.query(`ALTER TABLE "loan_position" DROP CONSTRAINT "FK_e2cf04d65d0b9f7fd2f7ca0bdc2"`)
+        await db.query(`ALTER TABLE "loan_position" DROP CONSTRAINT "FK_84e8113223ae14f95a017ac598d"`)
+    }
+}
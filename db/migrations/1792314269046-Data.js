@@ -0,0 +1,11 @@
+module.exports = class Data1792314269046 {
+    name = 'Data1792314269046'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "loan_position" ADD "borrow_index" numeric`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan_position" DROP COLUMN "borrow_index"`)
+    }
+}
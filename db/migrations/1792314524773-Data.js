@@ -0,0 +1,11 @@
+module.exports = class Data1792314524773 {
+    name = 'Data1792314524773'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "loan_position" ADD "lend_tokens" numeric NOT NULL`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan_position" DROP COLUMN "lend_tokens"`)
+    }
+}
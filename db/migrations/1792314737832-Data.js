@@ -0,0 +1,23 @@
+module.exports = class Data1792314737832 {
+    name = 'Data1792314737832'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "loan_reward" ("id" character varying NOT NULL, "type" character varying(8) NOT NULL, "account_id" text NOT NULL, "reward_currency" jsonb NOT NULL, "currency_symbol" text NOT NULL, "amount" numeric NOT NULL, "amount_human" numeric NOT NULL, "amount_usdt" numeric, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "market_id" character varying, "height_id" character varying, CONSTRAINT "PK_39b252f435b59095efd0ce59f31" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_39f1af98200175164b46744ec5" ON "loan_reward" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_98f562d0d803f7c34ff5fdbcdb" ON "loan_reward" ("market_id") `)
+        await db.query(`CREATE INDEX "IDX_11ed0f21143723d7b9ed90ac70" ON "loan_reward" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_ea731d55dc23143444d7af0bfd" ON "loan_reward" ("timestamp") `)
+        await db.query(`ALTER TABLE "loan_reward" ADD CONSTRAINT "FK_98f562d0d803f7c34ff5fdbcdba" FOREIGN KEY ("market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_reward" ADD CONSTRAINT "FK_11ed0f21143723d7b9ed90ac708" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "loan_reward"`)
+        await db.query(`DROP INDEX "public"."IDX_39f1af98200175164b46744ec5"`)
+        await db.query(`DROP INDEX "public"."IDX_98f562d0d803f7c34ff5fdbcdb"`)
+        await db.query(`DROP INDEX "public"."IDX_11ed0f21143723d7b9ed90ac70"`)
+        await db.query(`DROP INDEX "public"."IDX_ea731d55dc23143444d7af0bfd"`)
+        await db.query(`ALTER TABLE "loan_reward" DROP CONSTRAINT "FK_98f562d0d803f7c34ff5fdbcdba"`)
+        await db.query(`ALTER TABLE "loan_reward" DROP CONSTRAINT "FK_11ed0f21143723d7b9ed90ac708"`)
+    }
+}
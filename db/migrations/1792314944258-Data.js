@@ -0,0 +1,45 @@
+module.exports = class Data1792314944258 {
+    name = 'Data1792314944258'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "borrower" text NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "liquidator" text NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "amount_repaid_usdt" numeric NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "amount_repaid_btc" numeric NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "seized_collateral_usdt" numeric NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "seized_collateral_btc" numeric NOT NULL`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "market_id" character varying`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "collateral_market_id" character varying`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD "height_id" character varying`)
+        await db.query(`CREATE INDEX "IDX_997136c313097364b5aa5d6549" ON "loan_liquidation" ("borrower") `)
+        await db.query(`CREATE INDEX "IDX_66f3045665ec4f6f94ad3ab639" ON "loan_liquidation" ("liquidator") `)
+        await db.query(`CREATE INDEX "IDX_99417421fdf4ac8a88cbdd6069" ON "loan_liquidation" ("market_id") `)
+        await db.query(`CREATE INDEX "IDX_047c947a762888edf33ac04903" ON "loan_liquidation" ("collateral_market_id") `)
+        await db.query(`CREATE INDEX "IDX_494b4efd5268e350d9f4d6c949" ON "loan_liquidation" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_0dd67e0cfd802608d5ce70e09f" ON "loan_liquidation" ("timestamp") `)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD CONSTRAINT "FK_99417421fdf4ac8a88cbdd60694" FOREIGN KEY ("market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD CONSTRAINT "FK_047c947a762888edf33ac049036" FOREIGN KEY ("collateral_market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_liquidation" ADD CONSTRAINT "FK_494b4efd5268e350d9f4d6c949e" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "borrower"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "liquidator"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "amount_repaid_usdt"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "amount_repaid_btc"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "seized_collateral_usdt"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "seized_collateral_btc"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "market_id"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "collateral_market_id"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP COLUMN "height_id"`)
+        await db.query(`DROP INDEX "public"."IDX_997136c313097364b5aa5d6549"`)
+        await db.query(`DROP INDEX "public"."IDX_66f3045665ec4f6f94ad3ab639"`)
+        await db.query(`DROP INDEX "public"."IDX_99417421fdf4ac8a88cbdd6069"`)
+        await db.query(`DROP INDEX "public"."IDX_047c947a762888edf33ac04903"`)
+        await db.query(`DROP INDEX "public"."IDX_494b4efd5268e350d9f4d6c949"`)
+        await db.query(`DROP INDEX "public"."IDX_0dd67e0cfd802608d5ce70e09f"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP CONSTRAINT "FK_99417421fdf4ac8a88cbdd60694"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP CONSTRAINT "FK_047c947a762888edf33ac049036"`)
+        await db.query(`ALTER TABLE "loan_liquidation" DROP CONSTRAINT "FK_494b4efd5268e350d9f4d6c949e"`)
+    }
+}
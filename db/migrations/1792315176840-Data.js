@@ -0,0 +1,19 @@
+module.exports = class Data1792315176840 {
+    name = 'Data1792315176840'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "loan_health" ("id" character varying NOT NULL, "account_id" text NOT NULL, "liquidation_threshold_btc" numeric NOT NULL, "borrow_limit_btc" numeric NOT NULL, "borrowed_btc" numeric NOT NULL, "health_factor" numeric, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "height_id" character varying, CONSTRAINT "PK_f9c258f690cc9fad6fd1eb259d5" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_be3845eeffb21ba76e7116efbe" ON "loan_health" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_bf762e47706134a4740553f201" ON "loan_health" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_6855d59c128ae352be488e22de" ON "loan_health" ("timestamp") `)
+        await db.query(`ALTER TABLE "loan_health" ADD CONSTRAINT "FK_bf762e47706134a4740553f201b" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "loan_health"`)
+        await db.query(`DROP INDEX "public"."IDX_be3845eeffb21ba76e7116efbe"`)
+        await db.query(`DROP INDEX "public"."IDX_bf762e47706134a4740553f201"`)
+        await db.query(`DROP INDEX "public"."IDX_6855d59c128ae352be488e22de"`)
+        await db.query(`ALTER TABLE "loan_health" DROP CONSTRAINT "FK_bf762e47706134a4740553f201b"`)
+    }
+}
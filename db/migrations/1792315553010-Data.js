@@ -0,0 +1,21 @@
+module.exports = class Data1792315553010 {
+    name = 'Data1792315553010'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "loan_market_update" ("id" character varying NOT NULL, "type" character varying(9) NOT NULL, "token" jsonb NOT NULL, "currency_symbol" text NOT NULL, "borrow_cap" numeric NOT NULL, "supply_cap" numeric NOT NULL, "rate_model" jsonb NOT NULL, "close_factor" numeric NOT NULL, "state" character varying(11) NOT NULL, "reserve_factor" numeric NOT NULL, "collateral_factor" numeric NOT NULL, "liquidate_incentive" numeric NOT NULL, "liquidation_threshold" numeric NOT NULL, "liquidate_incentive_reserved_factor" numeric NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "market_id" character varying, "height_id" character varying, CONSTRAINT "PK_276b5f1487428fcdaa3cf6ecd7a" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_a43d4dea2aa979d9c69e1d4918" ON "loan_market_update" ("market_id") `)
+        await db.query(`CREATE INDEX "IDX_ec17286f701d687f9279fa0e51" ON "loan_market_update" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_7937747685238c4063f6825b42" ON "loan_market_update" ("timestamp") `)
+        await db.query(`ALTER TABLE "loan_market_update" ADD CONSTRAINT "FK_a43d4dea2aa979d9c69e1d4918a" FOREIGN KEY ("market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_market_update" ADD CONSTRAINT "FK_ec17286f701d687f9279fa0e514" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "loan_market_update"`)
+        await db.query(`DROP INDEX "public"."IDX_a43d4dea2aa979d9c69e1d4918"`)
+        await db.query(`DROP INDEX "public"."IDX_ec17286f701d687f9279fa0e51"`)
+        await db.query(`DROP INDEX "public"."IDX_7937747685238c4063f6825b42"`)
+        await db.query(`ALTER TABLE "loan_market_update" DROP CONSTRAINT "FK_a43d4dea2aa979d9c69e1d4918a"`)
+        await db.query(`ALTER TABLE "loan_market_update" DROP CONSTRAINT "FK_ec17286f701d687f9279fa0e514"`)
+    }
+}
@@ -0,0 +1,21 @@
+module.exports = class Data1792315771406 {
+    name = 'Data1792315771406'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "loan_market_daily_stats" ("id" character varying NOT NULL, "currency_symbol" text NOT NULL, "date" TIMESTAMP WITH TIME ZONE NOT NULL, "accrual_count" integer NOT NULL, "utilization_open" numeric, "utilization_close" numeric, "utilization_avg" numeric, "borrow_apy_avg" numeric, "supply_apy_avg" numeric, "total_borrows" numeric, "total_borrows_native" numeric, "total_borrows_btc" numeric, "total_borrows_usdt" numeric, "total_reserves" numeric, "total_reserves_native" numeric, "total_reserves_btc" numeric, "total_reserves_usdt" numeric, "active_borrowers" integer NOT NULL, "active_suppliers" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "market_id" character varying, "height_id" character varying, CONSTRAINT "PK_75c186f5f55a7b51f92073f6187" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_cd416cabae327fbd928752171b" ON "loan_market_daily_stats" ("market_id") `)
+        await db.query(`CREATE INDEX "IDX_7ee4082b79fe39cf1a0612c0b3" ON "loan_market_daily_stats" ("date") `)
+        await db.query(`CREATE INDEX "IDX_8fd1e946feb5ad2f4a5687e22f" ON "loan_market_daily_stats" ("height_id") `)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD CONSTRAINT "FK_cd416cabae327fbd928752171bd" FOREIGN KEY ("market_id") REFERENCES "loan_market"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD CONSTRAINT "FK_8fd1e946feb5ad2f4a5687e22f2" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "loan_market_daily_stats"`)
+        await db.query(`DROP INDEX "public"."IDX_cd416cabae327fbd928752171b"`)
+        await db.query(`DROP INDEX "public"."IDX_7ee4082b79fe39cf1a0612c0b3"`)
+        await db.query(`DROP INDEX "public"."IDX_8fd1e946feb5ad2f4a5687e22f"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP CONSTRAINT "FK_cd416cabae327fbd928752171bd"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP CONSTRAINT "FK_8fd1e946feb5ad2f4a5687e22f2"`)
+    }
+}
@@ -0,0 +1,27 @@
+module.exports = class Data1792316152732 {
+    name = 'Data1792316152732'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "loan" ADD "price_source" character varying(11)`)
+        await db.query(`ALTER TABLE "loan" ADD "price_confidence" character varying(6)`)
+        await db.query(`ALTER TABLE "deposit" ADD "price_source" character varying(11)`)
+        await db.query(`ALTER TABLE "deposit" ADD "price_confidence" character varying(6)`)
+        await db.query(`ALTER TABLE "interest_accrual" ADD "price_source" character varying(11)`)
+        await db.query(`ALTER TABLE "interest_accrual" ADD "price_confidence" character varying(6)`)
+        await db.query(`CREATE INDEX "IDX_48837f70e89a244eb737744659" ON "loan" ("price_confidence") `)
+        await db.query(`CREATE INDEX "IDX_d4e02ec05afaa4f2f2d5b83a10" ON "deposit" ("price_confidence") `)
+        await db.query(`CREATE INDEX "IDX_8725da36f98b45d90ee6579675" ON "interest_accrual" ("price_confidence") `)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan" DROP COLUMN "price_source"`)
+        await db.query(`ALTER TABLE "loan" DROP COLUMN "price_confidence"`)
+        await db.query(`ALTER TABLE "deposit" DROP COLUMN "price_source"`)
+        await db.query(`ALTER TABLE "deposit" DROP COLUMN "price_confidence"`)
+        await db.query(`ALTER TABLE "interest_accrual" DROP COLUMN "price_source"`)
+        await db.query(`ALTER TABLE "interest_accrual" DROP COLUMN "price_confidence"`)
+        await db.query(`DROP INDEX "public"."IDX_48837f70e89a244eb737744659"`)
+        await db.query(`DROP INDEX "public"."IDX_d4e02ec05afaa4f2f2d5b83a10"`)
+        await db.query(`DROP INDEX "public"."IDX_8725da36f98b45d90ee6579675"`)
+    }
+}
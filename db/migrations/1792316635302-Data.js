@@ -0,0 +1,21 @@
+module.exports = class Data1792316635302 {
+    name = 'Data1792316635302'
+
+    async up(db) {
+        // candles are only built from oracle feeds as they are processed, existing
+        // oracle_update rows are not backfilled: a full reindex is required to chart them
+        await db.query(`CREATE TABLE "price_candle" ("id" character varying NOT NULL, "currency" jsonb NOT NULL, "currency_key" text NOT NULL, "currency_symbol" text NOT NULL, "interval" character varying(4) NOT NULL, "start_time" TIMESTAMP WITH TIME ZONE NOT NULL, "open_btc" numeric NOT NULL, "high_btc" numeric NOT NULL, "low_btc" numeric NOT NULL, "close_btc" numeric NOT NULL, "open_usdt" numeric, "high_usdt" numeric, "low_usdt" numeric, "close_usdt" numeric, "open_raw" numeric NOT NULL, "close_raw" numeric NOT NULL, "open_timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "close_timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "feed_count" integer NOT NULL, "height_id" character varying, CONSTRAINT "PK_52c4a68fd84e9e816488426cb34" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_7e3af05a21394c786aeacc5c4f" ON "price_candle" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_53c5b28e3b3aff7cee00ad88af" ON "price_candle" ("currency_symbol", "interval", "start_time") `)
+        await db.query(`CREATE INDEX "IDX_7395e47f4b9e65222beaf7ea4d" ON "price_candle" ("currency_key", "interval", "close_timestamp") `)
+        await db.query(`ALTER TABLE "price_candle" ADD CONSTRAINT "FK_7e3af05a21394c786aeacc5c4f9" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "price_candle"`)
+        await db.query(`DROP INDEX "public"."IDX_7e3af05a21394c786aeacc5c4f"`)
+        await db.query(`DROP INDEX "public"."IDX_53c5b28e3b3aff7cee00ad88af"`)
+        await db.query(`DROP INDEX "public"."IDX_7395e47f4b9e65222beaf7ea4d"`)
+        await db.query(`ALTER TABLE "price_candle" DROP CONSTRAINT "FK_7e3af05a21394c786aeacc5c4f9"`)
+    }
+}
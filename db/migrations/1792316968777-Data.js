@@ -0,0 +1,21 @@
+module.exports = class Data1792316968777 {
+    name = 'Data1792316968777'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "pool_reserve_snapshot" ("id" character varying NOT NULL, "pool_type" character varying(8) NOT NULL, "pool_id" text NOT NULL, "reserves" jsonb NOT NULL, "total_supply" numeric NOT NULL, "value_btc" numeric, "value_usdt" numeric, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "height_id" character varying, CONSTRAINT "PK_971f9908535507c716742fd6e15" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_fab7c0bee4b931a2b50d58c585" ON "pool_reserve_snapshot" ("pool_type") `)
+        await db.query(`CREATE INDEX "IDX_d16a6658f048012fe19eb79521" ON "pool_reserve_snapshot" ("pool_id") `)
+        await db.query(`CREATE INDEX "IDX_0f2a4d43e60b5233538f08d5ed" ON "pool_reserve_snapshot" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_a37c091c1ea74ea3340533d596" ON "pool_reserve_snapshot" ("timestamp") `)
+        await db.query(`ALTER TABLE "pool_reserve_snapshot" ADD CONSTRAINT "FK_0f2a4d43e60b5233538f08d5edc" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "pool_reserve_snapshot"`)
+        await db.query(`DROP INDEX "public"."IDX_fab7c0bee4b931a2b50d58c585"`)
+        await db.query(`DROP INDEX "public"."IDX_d16a6658f048012fe19eb79521"`)
+        await db.query(`DROP INDEX "public"."IDX_0f2a4d43e60b5233538f08d5ed"`)
+        await db.query(`DROP INDEX "public"."IDX_a37c091c1ea74ea3340533d596"`)
+        await db.query(`ALTER TABLE "pool_reserve_snapshot" DROP CONSTRAINT "FK_0f2a4d43e60b5233538f08d5edc"`)
+    }
+}
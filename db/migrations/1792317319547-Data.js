@@ -0,0 +1,23 @@
+module.exports = class Data1792317319547 {
+    name = 'Data1792317319547'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "lp_position" ("id" character varying NOT NULL, "account_id" text NOT NULL, "pool_type" character varying(8) NOT NULL, "pool_id" text NOT NULL, "lp_token" jsonb NOT NULL, "balance" numeric NOT NULL, "share_of_pool" numeric NOT NULL, "underlying_amounts" jsonb NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "height_id" character varying, CONSTRAINT "PK_a5cd4598902fc096ca621ff70e0" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_9de02045d886b3505d5b45ee64" ON "lp_position" ("account_id") `)
+        await db.query(`CREATE INDEX "IDX_d2dc0506205986c1280cd6d4b8" ON "lp_position" ("pool_type") `)
+        await db.query(`CREATE INDEX "IDX_a9a3097fe8a1f6104105c8c732" ON "lp_position" ("pool_id") `)
+        await db.query(`CREATE INDEX "IDX_0f904f5007442a937629f198ee" ON "lp_position" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_c987e17687dc3a0407ec15a975" ON "lp_position" ("timestamp") `)
+        await db.query(`ALTER TABLE "lp_position" ADD CONSTRAINT "FK_0f904f5007442a937629f198ee4" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "lp_position"`)
+        await db.query(`DROP INDEX "public"."IDX_9de02045d886b3505d5b45ee64"`)
+        await db.query(`DROP INDEX "public"."IDX_d2dc0506205986c1280cd6d4b8"`)
+        await db.query(`DROP INDEX "public"."IDX_a9a3097fe8a1f6104105c8c732"`)
+        await db.query(`DROP INDEX "public"."IDX_0f904f5007442a937629f198ee"`)
+        await db.query(`DROP INDEX "public"."IDX_c987e17687dc3a0407ec15a975"`)
+        await db.query(`ALTER TABLE "lp_position" DROP CONSTRAINT "FK_0f904f5007442a937629f198ee4"`)
+    }
+}
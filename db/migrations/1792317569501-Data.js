@@ -0,0 +1,21 @@
+module.exports = class Data1792317569501 {
+    name = 'Data1792317569501'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "pool_candle" ("id" character varying NOT NULL, "pool_type" character varying(8) NOT NULL, "pool_id" text NOT NULL, "pair" text NOT NULL, "base_token" jsonb NOT NULL, "quote_token" jsonb NOT NULL, "interval" character varying(4) NOT NULL, "start_time" TIMESTAMP WITH TIME ZONE NOT NULL, "open" numeric NOT NULL, "high" numeric NOT NULL, "low" numeric NOT NULL, "close" numeric NOT NULL, "base_volume" numeric NOT NULL, "base_volume_human" numeric NOT NULL, "quote_volume" numeric NOT NULL, "quote_volume_human" numeric NOT NULL, "volume_usdt" numeric NOT NULL, "trade_count" integer NOT NULL, "close_timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "height_id" character varying, CONSTRAINT "PK_b1d55f661568394716897119df8" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_be98f6331e3dfef1a716368f9a" ON "pool_candle" ("pool_type") `)
+        await db.query(`CREATE INDEX "IDX_0e67cf6f47e931ec4d4adc5367" ON "pool_candle" ("height_id") `)
+        await db.query(`CREATE INDEX "IDX_ebea7981ffa45a9767d5ccf2a2" ON "pool_candle" ("pool_id", "pair", "interval", "start_time") `)
+        await db.query(`ALTER TABLE "swap" ADD "execution_price" numeric`)
+        await db.query(`ALTER TABLE "pool_candle" ADD CONSTRAINT "FK_0e67cf6f47e931ec4d4adc53674" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "pool_candle"`)
+        await db.query(`DROP INDEX "public"."IDX_be98f6331e3dfef1a716368f9a"`)
+        await db.query(`DROP INDEX "public"."IDX_0e67cf6f47e931ec4d4adc5367"`)
+        await db.query(`DROP INDEX "public"."IDX_ebea7981ffa45a9767d5ccf2a2"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "execution_price"`)
+        await db.query(`ALTER TABLE "pool_candle" DROP CONSTRAINT "FK_0e67cf6f47e931ec4d4adc53674"`)
+    }
+}
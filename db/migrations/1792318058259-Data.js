@@ -0,0 +1,21 @@
+module.exports = class Data1792318058259 {
+    name = 'Data1792318058259'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "swap" ADD "from_btc" numeric`)
+        await db.query(`ALTER TABLE "swap" ADD "from_usdt" numeric`)
+        await db.query(`ALTER TABLE "swap" ADD "to_btc" numeric`)
+        await db.query(`ALTER TABLE "swap" ADD "to_usdt" numeric`)
+        await db.query(`ALTER TABLE "swap" ADD "fees_btc" numeric`)
+        await db.query(`ALTER TABLE "swap" ADD "fees_usdt" numeric`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "from_btc"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "from_usdt"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "to_btc"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "to_usdt"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "fees_btc"`)
+        await db.query(`ALTER TABLE "swap" DROP COLUMN "fees_usdt"`)
+    }
+}
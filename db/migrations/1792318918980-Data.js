@@ -0,0 +1,21 @@
+module.exports = class Data1792318918980 {
+    name = 'Data1792318918980'
+
+    async up(db) {
+        await db.query(`CREATE TABLE "vault_undercollateralization_report" ("id" character varying NOT NULL, "reporter" text NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "vault_id" character varying, "height_id" character varying, CONSTRAINT "PK_7ad8c482bfa1ab940b4e7b917ed" PRIMARY KEY ("id"))`)
+        await db.query(`CREATE INDEX "IDX_eeda59e02a24f651f8428987f5" ON "vault_undercollateralization_report" ("vault_id") `)
+        await db.query(`CREATE INDEX "IDX_bc724a31804849c99651bcc96c" ON "vault_undercollateralization_report" ("reporter") `)
+        await db.query(`CREATE INDEX "IDX_4aadf94153de7e9b929964662d" ON "vault_undercollateralization_report" ("height_id") `)
+        await db.query(`ALTER TABLE "vault_undercollateralization_report" ADD CONSTRAINT "FK_eeda59e02a24f651f8428987f55" FOREIGN KEY ("vault_id") REFERENCES "vault"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+        await db.query(`ALTER TABLE "vault_undercollateralization_report" ADD CONSTRAINT "FK_4aadf94153de7e9b929964662dc" FOREIGN KEY ("height_id") REFERENCES "height"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    }
+
+    async down(db) {
+        await db.query(`DROP TABLE "vault_undercollateralization_report"`)
+        await db.query(`DROP INDEX "public"."IDX_eeda59e02a24f651f8428987f5"`)
+        await db.query(`DROP INDEX "public"."IDX_bc724a31804849c99651bcc96c"`)
+        await db.query(`DROP INDEX "public"."IDX_4aadf94153de7e9b929964662d"`)
+        await db.query(`ALTER TABLE "vault_undercollateralization_report" DROP CONSTRAINT "FK_eeda59e02a24f651f8428987f55"`)
+        await db.query(`ALTER TABLE "vault_undercollateralization_report" DROP CONSTRAINT "FK_4aadf94153de7e9b929964662dc"`)
+    }
+}
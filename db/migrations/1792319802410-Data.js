@@ -0,0 +1,14 @@
+module.exports = class Data1792319802410 {
+    name = 'Data1792319802410'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "reward_accrual" ALTER COLUMN "account_id" DROP NOT NULL`)
+        // distributions go to the whole staking pool of the vault, not to its operator
+        await db.query(`UPDATE "reward_accrual" SET "account_id" = NULL WHERE "type" = 'Distributed'`)
+    }
+
+    async down(db) {
+        await db.query(`UPDATE "reward_accrual" SET "account_id" = "vault"."account_id" FROM "vault" WHERE "reward_accrual"."vault_id" = "vault"."id" AND "reward_accrual"."account_id" IS NULL`)
+        await db.query(`ALTER TABLE "reward_accrual" ALTER COLUMN "account_id" SET NOT NULL`)
+    }
+}
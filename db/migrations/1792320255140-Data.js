@@ -0,0 +1,17 @@
+module.exports = class Data1792320255140 {
+    name = 'Data1792320255140'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD "first_accrual_timestamp" TIMESTAMP WITH TIME ZONE`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD "last_accrual_timestamp" TIMESTAMP WITH TIME ZONE`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD "borrow_apy_close" numeric`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" ADD "supply_apy_close" numeric`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP COLUMN "first_accrual_timestamp"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP COLUMN "last_accrual_timestamp"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP COLUMN "borrow_apy_close"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" DROP COLUMN "supply_apy_close"`)
+    }
+}
@@ -0,0 +1,15 @@
+module.exports = class Data1792320976740 {
+    name = 'Data1792320976740'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "oracle_update" ADD "currency_key" text`)
+        // same keys as currencyToString in the mappings
+        await db.query(`UPDATE "oracle_update" SET "currency_key" = CASE "type_key"->>'isTypeOf' WHEN 'NativeToken' THEN "type_key"->>'token' WHEN 'ForeignAsset' THEN "type_key"->>'asset' WHEN 'LendToken' THEN 'lendToken_' || ("type_key"->>'lendTokenId') WHEN 'StableLpToken' THEN 'poolId_' || ("type_key"->>'poolId') END WHERE "type_key" IS NOT NULL`)
+        await db.query(`CREATE INDEX "IDX_71254e69e27770c5f50cc3b3fd" ON "oracle_update" ("currency_key", "timestamp") `)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "oracle_update" DROP COLUMN "currency_key"`)
+        await db.query(`DROP INDEX "public"."IDX_71254e69e27770c5f50cc3b3fd"`)
+    }
+}
@@ -0,0 +1,14 @@
+module.exports = class Data1792321591919 {
+    name = 'Data1792321591919'
+
+    async up(db) {
+        await db.query(`ALTER TABLE "pool_candle" ALTER COLUMN "volume_usdt" DROP NOT NULL`)
+        // unpriced trades used to be counted as zero
+        await db.query(`UPDATE "pool_candle" SET "volume_usdt" = NULL WHERE "volume_usdt" = 0`)
+    }
+
+    async down(db) {
+        await db.query(`UPDATE "pool_candle" SET "volume_usdt" = 0 WHERE "volume_usdt" IS NULL`)
+        await db.query(`ALTER TABLE "pool_candle" ALTER COLUMN "volume_usdt" SET NOT NULL`)
+    }
+}
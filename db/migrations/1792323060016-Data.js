@@ -0,0 +1,18 @@
+module.exports = class Data1792323060016 {
+    name = 'Data1792323060016'
+
+    async up(db) {
+        // the stored yearly rates are not compounded, so they are APRs
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "borrow_apy_close" TO "borrow_apr_close"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "borrow_apy_avg" TO "borrow_apr_avg"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "supply_apy_close" TO "supply_apr_close"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "supply_apy_avg" TO "supply_apr_avg"`)
+    }
+
+    async down(db) {
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "borrow_apr_close" TO "borrow_apy_close"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "borrow_apr_avg" TO "borrow_apy_avg"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "supply_apr_close" TO "supply_apy_close"`)
+        await db.query(`ALTER TABLE "loan_market_daily_stats" RENAME COLUMN "supply_apr_avg" TO "supply_apy_avg"`)
+    }
+}
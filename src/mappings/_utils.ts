@@ -4,14 +4,16 @@ import { BigDecimal } from "@subsquid/big-decimal";
 import { Store } from "@subsquid/typeorm-store";
 import { Big, BigSource } from "big.js";
 import * as process from "process";
-import { LessThanOrEqual, Like } from "typeorm";
-import { Currency, ForeignAsset, Height, Issue, OracleUpdate, OracleUpdateType, Redeem, Token, Vault } from "../model";
+import { LessThanOrEqual } from "typeorm";
+import { Currency, ForeignAsset, Height, Issue, NativeToken, OracleUpdate, OracleUpdateType, PoolType, PriceConfidence, PriceSource, Redeem, Replace, Swap, Token, Vault } from "../model";
 import { Ctx } from "../processor";
 import { getInterBtcApi } from "./utils/interBtcApi";
+import { getWrappedCurrency } from "./utils/nativeCurrency";
+import { inferGeneralPoolId } from "./utils/currencyOrder";
 import { VaultId as VaultIdV1021000 } from "../types/v1021000";
 import { VaultId as VaultIdV15 } from "../types/v15";
 import { VaultId as VaultIdV6 } from "../types/v6";
-import { encodeLegacyVaultId, encodeVaultId } from "./encoding";
+import { currencyToString, encodeLegacyVaultId, encodeVaultId } from "./encoding";
 import { ForeignAsset as LibForeignAsset, LendToken as LibLendToken } from "@interlay/interbtc-api";
 
 export type eventArgs = {
@@ -40,7 +42,7 @@ export async function getVaultId(store: Store, vaultId: VaultIdV1021000) {
 
 export async function isRequestExpired(
     store: Store,
-    request: Issue | Redeem,
+    request: Issue | Redeem | Replace,
     latestBtcBlock: number,
     latestActiveBlock: number,
     period: number
@@ -92,6 +94,10 @@ export async function cacheForeignAssets(): Promise<void> {
     });
 }
 
+export function getUsdtAssetId(): number | undefined {
+    return usdtAssetId;
+}
+
 export async function getForeignAsset(id: number): Promise<LibForeignAsset> {
     if (foreignAssetsCache.has(id)) {
         return foreignAssetsCache.get(id)!;
@@ -223,49 +229,97 @@ function decodeRawExchangeRate(rate: BigSource): Big {
     return Big(rate).div(Big(10).pow(FIXEDI128_SCALING_FACTOR));
 }
 
-async function getBestOracleUpdate(
+// value of the latest oracle feed for the currency at or before the timestamp
+async function getOracleValueAtOrBefore(
     ctx: Ctx,
     currency: Currency,
     timestamp: number
-): Promise<OracleUpdate | undefined> {
-    // the id ends the json string for the currency
-    const currencySearchTerm = currency.toJSON();
-    
-    // first try the latest value available
-    let oracleUpdate = await ctx.store.get(OracleUpdate, {
-        where: { 
-            id: Like(`%${JSON.stringify(currencySearchTerm)}`),
-            timestamp: LessThanOrEqual(new Date(timestamp)),
+): Promise<bigint | undefined> {
+    const update = await ctx.store.get(OracleUpdate, {
+        where: {
+            currencyKey: currencyToString(currency),
             type: OracleUpdateType.ExchangeRate,
+            timestamp: LessThanOrEqual(new Date(timestamp)),
         },
         order: { timestamp: "DESC" },
     });
+    return update?.updateValue;
+}
+
+async function getFirstOracleValue(
+    ctx: Ctx,
+    currency: Currency,
+    timestamp: number
+): Promise<bigint | undefined> {
+    ctx.log.warn(
+        `WARNING: no price registered by Oracle for ${JSON.stringify(currency.toJSON())} at or before timestamp ${new Date(timestamp)}. Fetching first available value.`
+    );
+    // no luck, so let's take the closest available price even if it is in the future
+    const update = await ctx.store.get(OracleUpdate, {
+        where: {
+            currencyKey: currencyToString(currency),
+            type: OracleUpdateType.ExchangeRate,
+        },
+        order: { timestamp: "ASC" },
+    });
+    return update?.updateValue;
+}
 
-    if (oracleUpdate === undefined) {
-        ctx.log.warn(
-            `WARNING: no price registered by Oracle for ${JSON.stringify(currencySearchTerm)} at or before timestamp ${new Date(timestamp)}. Fetching first available value.`
-        );
-        // no luck, so let's take the closest available price even if it is in the future
-        oracleUpdate = await ctx.store.get(OracleUpdate, {
-            where: { 
-                id: Like(`%${JSON.stringify(currencySearchTerm)}`),
-                type: OracleUpdateType.ExchangeRate,
-            },
-            order: { timestamp: "ASC" },
-        });
+// BTC price of the currency from its latest swap against wrapped BTC in a standard pool
+async function getDexExchangeRate(
+    ctx: Ctx,
+    currency: Currency,
+    currencyExt: CurrencyExt,
+    timestamp: number
+): Promise<ExchangeRate<Bitcoin, CurrencyExt> | undefined> {
+    const wrapped = new NativeToken({ token: getWrappedCurrency() });
+    const swap = await ctx.store.get(Swap, {
+        where: {
+            poolType: PoolType.Standard,
+            poolId: inferGeneralPoolId(currency, wrapped),
+            timestamp: LessThanOrEqual(new Date(timestamp)),
+        },
+        order: { timestamp: "DESC" },
+    });
+    if (swap === undefined) {
+        return undefined;
     }
 
-    return oracleUpdate;
+    const isWrapped = (token: Currency) =>
+        token.isTypeOf === "NativeToken" && token.token === wrapped.token;
+    const [wrappedAmount, currencyAmount] = isWrapped(swap.from.token)
+        ? [swap.from.amount, swap.to.amount]
+        : [swap.to.amount, swap.from.amount];
+    if (wrappedAmount === 0n || currencyAmount === 0n) {
+        return undefined;
+    }
+    // atomic units of the currency per satoshi, as decoded oracle rates are
+    return newCollateralBTCExchangeRate(
+        Big(currencyAmount.toString()).div(wrappedAmount.toString()),
+        currencyExt
+    );
 }
 
+const priceConfidenceBySource = new Map<PriceSource, PriceConfidence>([
+    [PriceSource.Peg, PriceConfidence.High],
+    [PriceSource.Oracle, PriceConfidence.High],
+    [PriceSource.Dex, PriceConfidence.Medium],
+    [PriceSource.OracleLater, PriceConfidence.Low],
+]);
+
 type OracleRate = {
     btcExchangeRate: ExchangeRate<Bitcoin, CurrencyExt>;
+    // unset if no BTC/USDT price is known, usdt is zero then
+    btcUsdtExchangeRate?: ExchangeRate<Bitcoin, CurrencyExt>;
     btc: Big;
     usdt: Big;
+    priceSource: PriceSource;
+    priceConfidence: PriceConfidence;
 }
 
 /* This function is used to calculate the exchange rate for a given currency at
-a given time.
+a given time. The BTC price is, in order of preference, the latest oracle price,
+the latest DEX swap against wrapped BTC, or the first oracle price after the time.
 */
 export async function getExchangeRate(
     ctx: Ctx,
@@ -284,31 +338,48 @@ export async function getExchangeRate(
         currencyToLibCurrencyExt(usdtCurrency)
     ]);
 
-    let btcCcyExchangeRate: ExchangeRate<Bitcoin, CurrencyExt>;
+    let btcCcyExchangeRate: ExchangeRate<Bitcoin, CurrencyExt> | undefined;
     let btcUsdtExchangeRate: ExchangeRate<Bitcoin, CurrencyExt> | undefined;
+    let priceSource: PriceSource;
     
     if (currency.isTypeOf === "NativeToken" 
         && (currency.token === Token.IBTC || currency.token === Token.KBTC)
     ) {
         // exchange rate between ibtc/kbtc and btc is assumed 1:1
         btcCcyExchangeRate = new ExchangeRate(Bitcoin, Bitcoin, Big(1));
+        priceSource = PriceSource.Peg;
     } else {
         // fetch oracle update value for btc vs currency
-        const btcCurrencyPrice = await getBestOracleUpdate(ctx, currency, timestamp);
-
+        let btcCurrencyPrice = await getOracleValueAtOrBefore(ctx, currency, timestamp);
+        priceSource = PriceSource.Oracle;
         if (btcCurrencyPrice === undefined) {
-            throw Error(`Unable to get BTC exchange rate for currency ${JSON.stringify(currency.toJSON())}`);
+            btcCcyExchangeRate = await getDexExchangeRate(ctx, currency, currencyExt, timestamp);
+            priceSource = PriceSource.Dex;
+        }
+        if (btcCurrencyPrice === undefined && btcCcyExchangeRate === undefined) {
+            btcCurrencyPrice = await getFirstOracleValue(ctx, currency, timestamp);
+            priceSource = PriceSource.OracleLater;
+        }
+        if (btcCurrencyPrice !== undefined) {
+            btcCcyExchangeRate = newCollateralBTCExchangeRate(
+                decodeRawExchangeRate(btcCurrencyPrice.toString()),
+                currencyExt
+            );
         }
 
-        btcCcyExchangeRate = newCollateralBTCExchangeRate(
-            decodeRawExchangeRate(btcCurrencyPrice.updateValue.toString()),
-            currencyExt
-        );
+        if (btcCcyExchangeRate === undefined) {
+            throw Error(`Unable to get BTC exchange rate for currency ${JSON.stringify(currency.toJSON())}`);
+        }
     }
+    let priceConfidence = priceConfidenceBySource.get(priceSource)!;
 
     // get oracle value for btc vs usdt
-    const btcUsdtPrice = await getBestOracleUpdate(ctx, usdtCurrency, timestamp);
-    const rawBtcUsdtRate = btcUsdtPrice?.updateValue.toString();
+    let btcUsdtPrice = await getOracleValueAtOrBefore(ctx, usdtCurrency, timestamp);
+    if (btcUsdtPrice === undefined) {
+        btcUsdtPrice = await getFirstOracleValue(ctx, usdtCurrency, timestamp);
+        priceConfidence = PriceConfidence.Low;
+    }
+    const rawBtcUsdtRate = btcUsdtPrice?.toString();
 
     btcUsdtExchangeRate = rawBtcUsdtRate 
         ? newCollateralBTCExchangeRate(
@@ -327,8 +398,11 @@ export async function getExchangeRate(
 
     return {
         btcExchangeRate: btcCcyExchangeRate,
+        btcUsdtExchangeRate,
         btc: amountInBtc.toBig(),
-        usdt: amountInUsdt?.toBig() || Big(0)
+        usdt: amountInUsdt?.toBig() || Big(0),
+        priceSource,
+        priceConfidence,
     }
 }
 
@@ -0,0 +1,38 @@
+import { getMatchedTxHashes } from "./bitcoinUtils";
+
+describe("bitcoinUtils", () => {
+    describe("getMatchedTxHashes", () => {
+        const hash = (byte: number) => ({ content: new Uint8Array(32).fill(byte) });
+
+        it("should return the only transaction of a single transaction block", () => {
+            const matches = getMatchedTxHashes({
+                flagBits: [true],
+                transactionsCount: 1,
+                hashes: [hash(1)],
+            });
+
+            expect(matches).toEqual([hash(1).content]);
+        });
+
+        it("should return the matched leaf of an unbalanced tree", () => {
+            // root -> (left: leaf A, leaf B [match]), (right: pruned subtree C)
+            const matches = getMatchedTxHashes({
+                flagBits: [true, true, false, true, false],
+                transactionsCount: 3,
+                hashes: [hash(1), hash(2), hash(3)],
+            });
+
+            expect(matches).toEqual([hash(2).content]);
+        });
+
+        it("should return nothing if no leaf is matched", () => {
+            const matches = getMatchedTxHashes({
+                flagBits: [false],
+                transactionsCount: 4,
+                hashes: [hash(9)],
+            });
+
+            expect(matches).toEqual([]);
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { Network, networks, payments } from "bitcoinjs-lib";
+import { address, Network, networks, payments } from "bitcoinjs-lib";
 import { Address as AddressV15 } from "../types/v15";
 import { Address as AddressV6 } from "../types/v6";
 
@@ -39,3 +39,56 @@ export function encodeBtcAddress(
     const hash = Buffer.from(addressObject.value);
     return payment({ hash, network }).address;
 }
+
+export function decodeBtcOutputScript(
+    script: Uint8Array,
+    network: Network
+): string | undefined {
+    try {
+        return address.fromOutputScript(Buffer.from(script), network);
+    } catch (e) {
+        // e.g. OP_RETURN outputs have no address
+        return undefined;
+    }
+}
+
+type PartialMerkleTree = {
+    flagBits: boolean[];
+    transactionsCount: number;
+    hashes: { content: Uint8Array }[];
+};
+
+/**
+ * Walks a partial merkle tree (BIP37 layout) depth first and returns the
+ * hashes of the matched leaves, i.e. the transactions the proof is for.
+ * Hashes are returned in internal (little endian) byte order.
+ */
+export function getMatchedTxHashes(proof: PartialMerkleTree): Uint8Array[] {
+    const treeWidth = (height: number) =>
+        (proof.transactionsCount + (1 << height) - 1) >> height;
+    let treeHeight = 0;
+    while (treeWidth(treeHeight) > 1) {
+        treeHeight++;
+    }
+
+    const matches: Uint8Array[] = [];
+    let bitsUsed = 0;
+    let hashesUsed = 0;
+    const traverse = (height: number, position: number) => {
+        const parentOfMatch = proof.flagBits[bitsUsed++];
+        if (height === 0 || !parentOfMatch) {
+            const hash = proof.hashes[hashesUsed++];
+            if (height === 0 && parentOfMatch && hash !== undefined) {
+                matches.push(hash.content);
+            }
+            return;
+        }
+        traverse(height - 1, position * 2);
+        if (position * 2 + 1 < treeWidth(height - 1)) {
+            traverse(height - 1, position * 2 + 1);
+        }
+    };
+    traverse(treeHeight, 0);
+
+    return matches;
+}
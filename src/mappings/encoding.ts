@@ -37,7 +37,11 @@ import {
 } from "../types/v1021000";
 
 import { CurrencyId_Token as CurrencyId_TokenV10 } from "../types/v10";
-import { encodeBtcAddress, getBtcNetwork } from "./bitcoinUtils";
+import {
+    decodeBtcOutputScript,
+    encodeBtcAddress,
+    getBtcNetwork,
+} from "./bitcoinUtils";
 import { u8aToString } from "@polkadot/util";
 import { decodeAddress, encodeAddress } from "@polkadot/util-crypto";
 
@@ -62,6 +66,9 @@ export const address = {
         encode(address: AddressV6 | AddressV15): string | undefined {
             return encodeBtcAddress(address, bitcoinNetwork);
         },
+        fromOutputScript(script: Uint8Array): string | undefined {
+            return decodeBtcOutputScript(script, bitcoinNetwork);
+        },
     },
 };
 
@@ -133,6 +140,21 @@ export const currencyId = {
                 throw new Error(`Unknown currency type to encode: ${JSON.stringify(asset)}`);
         }
     },
+    // the reverse, for storage keys; only currencies loan markets are opened in are handled
+    decode: (currency: Currency): CurrencyId_V1021000 => {
+        switch(currency.isTypeOf) {
+            case "LendToken":
+                return { __kind: "LendToken", value: currency.lendTokenId };
+            case "ForeignAsset":
+                return { __kind: "ForeignAsset", value: currency.asset };
+            case "NativeToken":
+                return { __kind: "Token", value: { __kind: currency.token } };
+
+            default:
+                // throw if not handled
+                throw new Error(`Unknown currency type to decode: ${JSON.stringify(currency)}`);
+        }
+    },
 };
 
 // Note: At the moment, this method is primarily used to encode vault_ids.
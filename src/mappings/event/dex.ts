@@ -9,9 +9,10 @@ import {
     CumulativeDexTradingVolumePerPool,
     Currency,
     DexStableFees,
-    fromJsonPooledToken,
     LiquidityProvisionType,
+    LpPosition,
     PooledToken,
+    PoolReserveSnapshot,
     PoolType,
     Swap
 } from "../../model";
@@ -24,7 +25,8 @@ import {
     DexStableCurrencyExchangeEvent,
     DexStableNewAdminFeeEvent,
     DexStableNewSwapFeeEvent,
-    DexStableRemoveLiquidityEvent
+    DexStableRemoveLiquidityEvent,
+    TokensTransferEvent
 } from "../../types/events";
 import { CurrencyId } from "../../types/v1021000";
 import { address, currencyId } from "../encoding";
@@ -41,22 +43,19 @@ import {
 } from "../utils/cumulativeVolumes";
 import EntityBuffer from "../utils/entityBuffer";
 import { blockToHeight } from "../utils/heights";
+import { updatePoolCandles } from "../utils/poolCandles";
 import {
+    buildLpPosition,
     buildNewSwapEntity,
+    buildStablePoolReserveSnapshot,
+    buildStandardPoolReserveSnapshot,
     createNewDexStableFeesEntity,
     getLatestDexStableFeesEntity,
-    getStablePoolCurrencyByIndex
+    getStablePoolCurrencyByIndex,
+    getStandardPoolLpCurrencyId,
+    isPooledToken
 } from "../utils/pools";
 
-function isPooledToken(currency: Currency): currency is PooledToken {
-    try {
-        fromJsonPooledToken(currency);
-        return true;
-    } catch (e) {
-        return false;
-    }
-}
-
 /**
  * Combines the given arrays into an array of {@link SwapDetailsAmount}.
  * @param currencies An array of currencies, assumed to be of type {@link PooledToken}
@@ -246,6 +245,7 @@ export async function dexGeneralAssetSwap(
         );
 
         entityBuffer.pushEntity(Swap.name, swapEntity);
+        await updatePoolCandles(ctx, swapEntity, entityBuffer);
 
         const entity = await updateCumulativeDexVolumesForStandardPool(
             ctx.store,
@@ -254,6 +254,17 @@ export async function dexGeneralAssetSwap(
             entityBuffer
         );
         entityBuffer.pushEntity(CumulativeDexTradingVolumePerPool.name, entity);
+
+        const snapshot = await buildStandardPoolReserveSnapshot(
+            ctx,
+            block,
+            [[swapDetails.from.currency, swapDetails.from.currencyId], [swapDetails.to.currency, swapDetails.to.currencyId]],
+            height,
+            entityBuffer
+        );
+        if (snapshot) {
+            entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+        }
     }
 
     await updateTotalAndPerAccountVolumesAndTradeCounts(
@@ -337,6 +348,7 @@ export async function dexStableCurrencyExchange(
     );
 
     entityBuffer.pushEntity(Swap.name, swapEntity);
+    await updatePoolCandles(ctx, swapEntity, entityBuffer);
 
     const entity = await updateCumulativeDexVolumesForStablePool(
         ctx.store,
@@ -348,6 +360,11 @@ export async function dexStableCurrencyExchange(
 
     entityBuffer.pushEntity(CumulativeDexTradingVolumePerPool.name, entity);
 
+    const snapshot = await buildStablePoolReserveSnapshot(ctx, block, poolId, height, entityBuffer);
+    if (snapshot) {
+        entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+    }
+
     await updateTotalAndPerAccountVolumesAndTradeCounts(
         blockTimestamp,
         amounts,
@@ -480,6 +497,29 @@ export async function dexGeneralLiquidityAdded(
     const entity = await buildNewAccountLPEntity(ctx, block, accountId, LiquidityProvisionType.DEPOSIT, deposits);
 
     entityBuffer.pushEntity(AccountLiquidityProvision.name, entity);
+
+    const height = await blockToHeight(ctx, block.height);
+    const [deposits0, deposits1] = deposits;
+    const pair: [[PooledToken, CurrencyId], [PooledToken, CurrencyId]] = [
+        [deposits0.currency, deposits0.currencyId],
+        [deposits1.currency, deposits1.currencyId]
+    ];
+    const snapshot = await buildStandardPoolReserveSnapshot(ctx, block, pair, height, entityBuffer);
+    if (snapshot) {
+        entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+
+        const position = await buildLpPosition(
+            ctx,
+            block,
+            accountId,
+            snapshot,
+            getStandardPoolLpCurrencyId(pair),
+            height
+        );
+        if (position) {
+            entityBuffer.pushEntity(LpPosition.name, position);
+        }
+    }
 }
 
 export async function dexGeneralLiquidityRemoved(
@@ -527,6 +567,29 @@ export async function dexGeneralLiquidityRemoved(
     const entity = await buildNewAccountLPEntity(ctx, block, accountId, LiquidityProvisionType.WITHDRAWAL, withdrawals);
 
     entityBuffer.pushEntity(AccountLiquidityProvision.name, entity);
+
+    const height = await blockToHeight(ctx, block.height);
+    const [withdrawals0, withdrawals1] = withdrawals;
+    const pair: [[PooledToken, CurrencyId], [PooledToken, CurrencyId]] = [
+        [withdrawals0.currency, withdrawals0.currencyId],
+        [withdrawals1.currency, withdrawals1.currencyId]
+    ];
+    const snapshot = await buildStandardPoolReserveSnapshot(ctx, block, pair, height, entityBuffer);
+    if (snapshot) {
+        entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+
+        const position = await buildLpPosition(
+            ctx,
+            block,
+            accountId,
+            snapshot,
+            getStandardPoolLpCurrencyId(pair),
+            height
+        );
+        if (position) {
+            entityBuffer.pushEntity(LpPosition.name, position);
+        }
+    }
 }
 
 export async function dexStableLiquidityAdded(
@@ -537,11 +600,12 @@ export async function dexStableLiquidityAdded(
 ): Promise<void> {
     const rawEvent = new DexStableAddLiquidityEvent(ctx, item.event);
     let accountId: string;
+    let poolId: number;
     let deposits: SwapDetailsAmount[];
     
     if (rawEvent.isV1021000) {
         const event = rawEvent.asV1021000;
-        const poolId = event.poolId;
+        poolId = event.poolId;
         const atomicBalances = event.supplyAmounts;
         const currencies: Currency[] = [];
         const currencyIds: CurrencyId[] = [];
@@ -561,6 +625,24 @@ export async function dexStableLiquidityAdded(
     const entity = await buildNewAccountLPEntity(ctx, block, accountId, LiquidityProvisionType.DEPOSIT, deposits);
 
     entityBuffer.pushEntity(AccountLiquidityProvision.name, entity);
+
+    const height = await blockToHeight(ctx, block.height);
+    const snapshot = await buildStablePoolReserveSnapshot(ctx, block, poolId, height, entityBuffer);
+    if (snapshot) {
+        entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+
+        const position = await buildLpPosition(
+            ctx,
+            block,
+            accountId,
+            snapshot,
+            { __kind: "StableLpToken", value: poolId },
+            height
+        );
+        if (position) {
+            entityBuffer.pushEntity(LpPosition.name, position);
+        }
+    }
 }
 
 export async function dexStableLiquidityRemoved(
@@ -571,11 +653,12 @@ export async function dexStableLiquidityRemoved(
 ): Promise<void> {
     const rawEvent = new DexStableRemoveLiquidityEvent(ctx, item.event);
     let accountId: string;
+    let poolId: number;
     let withdrawals: SwapDetailsAmount[];
     
     if (rawEvent.isV1021000) {
         const event = rawEvent.asV1021000;
-        const poolId = event.poolId;
+        poolId = event.poolId;
         const atomicBalances = event.amounts;
         const currencies: Currency[] = [];
         const currencyIds: CurrencyId[] = [];
@@ -595,4 +678,73 @@ export async function dexStableLiquidityRemoved(
     const entity = await buildNewAccountLPEntity(ctx, block, accountId, LiquidityProvisionType.WITHDRAWAL, withdrawals);
 
     entityBuffer.pushEntity(AccountLiquidityProvision.name, entity);
+
+    const height = await blockToHeight(ctx, block.height);
+    const snapshot = await buildStablePoolReserveSnapshot(ctx, block, poolId, height, entityBuffer);
+    if (snapshot) {
+        entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+
+        const position = await buildLpPosition(
+            ctx,
+            block,
+            accountId,
+            snapshot,
+            { __kind: "StableLpToken", value: poolId },
+            height
+        );
+        if (position) {
+            entityBuffer.pushEntity(LpPosition.name, position);
+        }
+    }
+}
+
+export async function lpTokenTransfer(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new TokensTransferEvent(ctx, item.event);
+    if (!rawEvent.isV1021000) {
+        // LP tokens do not exist in older runtimes
+        return;
+    }
+    const { currencyId: lpCurrencyId, from, to } = rawEvent.asV1021000;
+    if (lpCurrencyId.__kind !== "LpToken" && lpCurrencyId.__kind !== "StableLpToken") return;
+
+    const height = await blockToHeight(ctx, block.height, "LpTokenTransfer");
+    let snapshot: PoolReserveSnapshot | undefined;
+    if (lpCurrencyId.__kind === "StableLpToken") {
+        snapshot = await buildStablePoolReserveSnapshot(ctx, block, lpCurrencyId.value, height, entityBuffer);
+    } else {
+        const pair: [PooledToken, CurrencyId][] = [];
+        for (const id of lpCurrencyId.value) {
+            const currency = currencyId.encode(id);
+            if (!isPooledToken(currency)) {
+                ctx.log.warn(`Unexpected currency type ${currency.isTypeOf} in transferred LP token, skipping`);
+                return;
+            }
+            pair.push([currency, id]);
+        }
+        snapshot = await buildStandardPoolReserveSnapshot(ctx, block, [pair[0], pair[1]], height, entityBuffer);
+    }
+    if (snapshot === undefined) {
+        ctx.log.warn(`Unable to find pool of transferred LP token ${JSON.stringify(lpCurrencyId)}`);
+        return;
+    }
+    entityBuffer.pushEntity(PoolReserveSnapshot.name, snapshot);
+
+    for (const account of [from, to]) {
+        const position = await buildLpPosition(
+            ctx,
+            block,
+            address.parachain.encode(account),
+            snapshot,
+            lpCurrencyId,
+            height
+        );
+        if (position) {
+            entityBuffer.pushEntity(LpPosition.name, position);
+        }
+    }
 }
\ No newline at end of file
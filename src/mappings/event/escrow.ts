@@ -1,10 +1,85 @@
 import { SubstrateBlock } from "@subsquid/substrate-processor";
 import { Entity } from "@subsquid/typeorm-store";
-import { CumulativeVolume, VolumeType } from "../../model";
+import {
+    CumulativeVolume,
+    EscrowLock,
+    NativeToken,
+    VolumeType,
+} from "../../model";
 import { Ctx, EventItem } from "../../processor";
 import { EscrowDepositEvent, EscrowWithdrawEvent } from "../../types/events";
+import { address } from "../encoding";
 import { updateCumulativeVolumes } from "../utils/cumulativeVolumes";
 import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
+import { getNativeCurrency } from "../utils/nativeCurrency";
+import { convertAmountToHuman } from "../_utils";
+
+// Escrow MaxPeriod runtime constant, in parachain blocks
+const ESCROW_MAX_PERIOD = 4_838_400n;
+
+async function getLatestEscrowLock(
+    ctx: Ctx,
+    accountId: string,
+    entityBuffer: EntityBuffer
+): Promise<EscrowLock | undefined> {
+    const buffered = (
+        entityBuffer.getBufferedEntities(EscrowLock.name) as EscrowLock[]
+    )
+        .filter((entity) => entity.accountId === accountId)
+        .reduce<EscrowLock | undefined>(
+            (prev, current) =>
+                prev === undefined ||
+                current.timestamp.getTime() > prev.timestamp.getTime()
+                    ? current
+                    : prev,
+            undefined
+        );
+
+    return (
+        buffered ||
+        (await ctx.store.get(EscrowLock, {
+            where: { accountId },
+            order: { timestamp: "DESC" },
+        }))
+    );
+}
+
+async function updateEscrowLock(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    who: Uint8Array,
+    lock: { amount: bigint; unlockHeight?: number },
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const accountId = address.parachain.encode(who);
+    const previous = await getLatestEscrowLock(ctx, accountId, entityBuffer);
+
+    // deposits add to the lock, a withdrawal always empties it
+    const amount = (previous?.amount || 0n) + lock.amount;
+    const unlockHeight =
+        amount === 0n ? 0 : lock.unlockHeight ?? previous?.unlockHeight ?? 0;
+    const slope = amount / ESCROW_MAX_PERIOD;
+    const remainingBlocks = Math.max(unlockHeight - block.height, 0);
+
+    entityBuffer.pushEntity(
+        EscrowLock.name,
+        new EscrowLock({
+            id: `${accountId}-${block.height.toString()}`,
+            accountId,
+            amount,
+            amountHuman: await convertAmountToHuman(
+                new NativeToken({ token: getNativeCurrency() }),
+                amount
+            ),
+            unlockHeight,
+            slope,
+            bias: slope * BigInt(remainingBlocks),
+            height: await blockToHeight(ctx, block.height, "EscrowLock"),
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
 
 export async function deposit(
     ctx: Ctx,
@@ -23,6 +98,15 @@ export async function deposit(
 
     const timestamp = new Date(block.timestamp);
 
+    // extending the unlock height deposits a zero amount
+    await updateEscrowLock(
+        ctx,
+        block,
+        e.who,
+        { amount: e.amount, unlockHeight: e.unlockHeight },
+        entityBuffer
+    );
+
     if (e.amount === 0n) return;
     entityBuffer.pushEntity(
         CumulativeVolume.name,
@@ -53,6 +137,13 @@ export async function withdraw(
     const timestamp = new Date(block.timestamp);
 
     if (e.amount === 0n) return;
+    await updateEscrowLock(
+        ctx,
+        block,
+        e.who,
+        { amount: -e.amount },
+        entityBuffer
+    );
     entityBuffer.pushEntity(
         CumulativeVolume.name,
         await updateCumulativeVolumes(
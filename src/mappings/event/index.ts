@@ -1,7 +1,9 @@
 export * from "./dex";
 export * from "./issue";
 export * from "./redeem";
+export * from "./replace";
 export * from "./vault";
 export * from "./security";
 export * from "./btcRelay";
 export * from "./oracle";
+export * from "./rewards";
@@ -2,12 +2,18 @@ import { SubstrateBlock } from "@subsquid/substrate-processor";
 import {
     Currency,
     Deposit,
+    Height,
     InterestAccrual,
     Loan,
     LoanLiquidation,
     LoanMarket,
     LoanMarketActivation,
-    MarketState
+    LoanMarketUpdate,
+    LoanMarketUpdateType,
+    LoanReward,
+    LoanRewardType,
+    MarketState,
+    NativeToken
 } from "../../model";
 import { Ctx, EventItem } from "../../processor";
 import {
@@ -23,7 +29,8 @@ import {
     LoansRedeemedEvent,
     LoansRepaidBorrowEvent,
     LoansUpdatedMarketEvent,
-    LoansWithdrawCollateralEvent
+    LoansWithdrawCollateralEvent,
+    TokensTransferEvent
 } from "../../types/events";
 
 import {
@@ -38,9 +45,9 @@ import {
 
 import { newMonetaryAmount } from "@interlay/interbtc-api";
 import { Bitcoin } from "@interlay/monetary-js";
-import { Big } from "big.js";
 import { BigDecimal } from "@subsquid/big-decimal";
 import {
+    convertAmountToHuman,
     currencyToLibCurrencyExt,
     decimalsFromCurrency,
     divideByTenToTheNth,
@@ -53,41 +60,50 @@ import {
 import { address, currencyId, currencyToString, rateModel } from "../encoding";
 import EntityBuffer from "../utils/entityBuffer";
 import { blockToHeight } from "../utils/heights";
+import { updateLoanMarketDailyStats } from "../utils/loanMarketStats";
+import {
+    getLendTokenExchangeRate,
+    lendTokensToUnderlying,
+    toUnderlyingCurrency,
+    updateLoanPosition
+} from "../utils/loanPositions";
 import { lendTokenDetails } from "../utils/markets";
+import { getNativeCurrency } from "../utils/nativeCurrency";
 
 // https://github.com/paritytech/substrate/blob/8ae4738bd7ee57556ea42c33600dc95488b58db6/primitives/arithmetic/src/fixed_point.rs#L2200
 const FIXEDI128_SCALING_FACTOR = 18;
 // https://github.com/paritytech/substrate/blob/8ae4738bd7ee57556ea42c33600dc95488b58db6/primitives/arithmetic/src/per_things.rs#L1881
 const PERMILL_BASE = 1000000;
 
-type Rate = {
-    block: number;
-    symbol: string;
-    rate: number;
-};
-
-class BlockRates {
-    rates: Rate[] = [];
-
-    addRate(block: number, symbol: string, rate: number) {
-        this.rates.push({ block, symbol, rate });
-    }
-
-    getRate(block: number, symbol: string): Rate {
-        for (let i = this.rates.length - 1; i >= 0; i--) {
-            if (this.rates[i].symbol === symbol) {
-                if (this.rates[i].block <= block) {
-                    return this.rates[i];
-                }
-            }
-        }
-        console.log(`Returning default rate for ${symbol}`);
-        return {block: block, symbol: symbol, rate: 0.02};
-    }
+// snapshot of the market parameters after a market event, the LoanMarket itself only keeps the latest
+function loanMarketUpdate(
+    item: EventItem,
+    type: LoanMarketUpdateType,
+    market: LoanMarket,
+    height: Height,
+    timestamp: Date
+): LoanMarketUpdate {
+    return new LoanMarketUpdate({
+        id: item.event.id,
+        type,
+        market,
+        token: market.token,
+        currencySymbol: market.currencySymbol,
+        borrowCap: market.borrowCap,
+        supplyCap: market.supplyCap,
+        rateModel: market.rateModel,
+        closeFactor: market.closeFactor,
+        state: market.state,
+        reserveFactor: market.reserveFactor,
+        collateralFactor: market.collateralFactor,
+        liquidateIncentive: market.liquidateIncentive,
+        liquidationThreshold: market.liquidationThreshold,
+        liquidateIncentiveReservedFactor: market.liquidateIncentiveReservedFactor,
+        height,
+        timestamp,
+    });
 }
 
-const cachedRates = new BlockRates();
-
 export async function newMarket(
     ctx: Ctx,
     block: SubstrateBlock,
@@ -136,6 +152,10 @@ export async function newMarket(
     });
     // console.log(JSON.stringify(my_market));
     await entityBuffer.pushEntity(LoanMarket.name, my_market);
+    await entityBuffer.pushEntity(
+        LoanMarketUpdate.name,
+        loanMarketUpdate(item, LoanMarketUpdateType.New, my_market, height, timestamp)
+    );
 }
 
 // Updated market just adds new market with same id (replacing newMarket)
@@ -179,7 +199,7 @@ export async function updatedMarket(
         lendTokenId: lendTokenIdNo,
         reserveFactor: market.reserveFactor / PERMILL_BASE,
         collateralFactor: market.collateralFactor / PERMILL_BASE,
-        liquidateIncentive: divideByTenToTheNth(market.liquidateIncentive, decimals),
+        liquidateIncentive: divideByTenToTheNth(market.liquidateIncentive, FIXEDI128_SCALING_FACTOR),
         liquidationThreshold: market.liquidationThreshold / PERMILL_BASE,
         liquidateIncentiveReservedFactor: market.liquidateIncentiveReservedFactor / PERMILL_BASE,
         currencySymbol: await tickerFromCurrency(currency)
@@ -199,6 +219,10 @@ export async function updatedMarket(
             throw new Error(`Unsupported market state: ${market.state}`);
     }
     entityBuffer.pushEntity(LoanMarket.name, my_market);
+    entityBuffer.pushEntity(
+        LoanMarketUpdate.name,
+        loanMarketUpdate(item, LoanMarketUpdateType.Updated, my_market, height, timestamp)
+    );
 }
 
 export async function activatedMarket(
@@ -242,6 +266,10 @@ export async function activatedMarket(
     marketDb.activation = activation;
     entityBuffer.pushEntity(LoanMarketActivation.name, activation);
     entityBuffer.pushEntity(LoanMarket.name, marketDb);
+    entityBuffer.pushEntity(
+        LoanMarketUpdate.name,
+        loanMarketUpdate(item, LoanMarketUpdateType.Activated, marketDb, height, activation.timestamp)
+    );
 }
 
 export async function borrow(
@@ -283,11 +311,14 @@ export async function borrow(
             amountBorrowed: amount,
             amountBorrowedUsdt: amounts.usdt.toNumber(),
             amountBorrowedBtc: amounts.btc.toNumber(),
+            priceSource: amounts.priceSource,
+            priceConfidence: amounts.priceConfidence,
             comment: comment,
             currencySymbol: await tickerFromCurrency(currency)
 
         })
     );
+    await updateLoanPosition(ctx, block, account, currency, { borrowed: amount }, entityBuffer, "LoansBorrowed");
 }
 
 export async function depositCollateral(
@@ -320,12 +351,14 @@ export async function depositCollateral(
     if(currency.isTypeOf==='LendToken'){
         const newCurrency = await lendTokenDetails(ctx, currency.lendTokenId);
         symbol = await tickerFromCurrency(newCurrency);
-        const qRate = cachedRates.getRate(block.height, symbol);
-
-        const newAmount = Big(amount.toString()).mul(qRate.rate);
-        amounts = await getExchangeRate(ctx, block.timestamp, newCurrency, newAmount);
+        const exchangeRate = await getLendTokenExchangeRate(ctx, block, newCurrency, entityBuffer);
         symbol = `q`.concat(symbol);
-        if(newCurrency){
+        if (exchangeRate === undefined) {
+            // without an exchange rate the lend tokens cannot be valued
+            comment = `${getFirstAndLastFour(account)} deposited ${await friendlyAmount(currency, amount.toString())} for collateral`
+        } else {
+            const newAmount = lendTokensToUnderlying(amount, exchangeRate).toString();
+            amounts = await getExchangeRate(ctx, block.timestamp, newCurrency, newAmount);
             comment = `${getFirstAndLastFour(account)} deposited ${await friendlyAmount(newCurrency, newAmount)} for collateral`
         }
     } else {
@@ -345,12 +378,16 @@ export async function depositCollateral(
             token: currency,
             symbol: symbol,
             amountDeposited: amount,
-            amountDepositedUsdt: amounts.usdt.toNumber(),
-            amountDepositedBtc: amounts.btc.toNumber(),
+            amountDepositedUsdt: amounts?.usdt.toNumber(),
+            amountDepositedBtc: amounts?.btc.toNumber(),
+            priceSource: amounts?.priceSource,
+            priceConfidence: amounts?.priceConfidence,
             comment: comment,
             currencySymbol: symbol
         })
     );
+    // collateral is locked in lend tokens of the market
+    await updateLoanPosition(ctx, block, account, await toUnderlyingCurrency(ctx, currency), { collateral: amount }, entityBuffer, "DepositCollateral");
 }
 
 export async function withdrawCollateral(
@@ -383,12 +420,14 @@ export async function withdrawCollateral(
     if(currency.isTypeOf==='LendToken'){
         const newCurrency = await lendTokenDetails(ctx, currency.lendTokenId)
         symbol = await tickerFromCurrency(newCurrency);
-        const qRate = cachedRates.getRate(block.height, symbol);
-
-        const newAmount = Big(amount.toString()).mul(qRate.rate);
-        amounts = await getExchangeRate(ctx, block.timestamp, newCurrency, newAmount);
+        const exchangeRate = await getLendTokenExchangeRate(ctx, block, newCurrency, entityBuffer);
         symbol = `q`.concat(symbol);
-        if(newCurrency){
+        if (exchangeRate === undefined) {
+            // without an exchange rate the lend tokens cannot be valued
+            comment = `${getFirstAndLastFour(account)} withdrew ${await friendlyAmount(currency, amount.toString())} from collateral`
+        } else {
+            const newAmount = lendTokensToUnderlying(amount, exchangeRate).toString();
+            amounts = await getExchangeRate(ctx, block.timestamp, newCurrency, newAmount);
             comment = `${getFirstAndLastFour(account)} withdrew ${await friendlyAmount(newCurrency, newAmount)} from collateral`
         }
     } else {
@@ -408,12 +447,15 @@ export async function withdrawCollateral(
             symbol: symbol,
             type: `collateral`,
             amountWithdrawn: amount,
-            amountWithdrawnUsdt: amounts.usdt.toNumber(),
-            amountWithdrawnBtc: amounts.btc.toNumber(),
+            amountWithdrawnUsdt: amounts?.usdt.toNumber(),
+            amountWithdrawnBtc: amounts?.btc.toNumber(),
+            priceSource: amounts?.priceSource,
+            priceConfidence: amounts?.priceConfidence,
             comment: comment,
             currencySymbol: symbol
         })
     );
+    await updateLoanPosition(ctx, block, account, await toUnderlyingCurrency(ctx, currency), { collateral: -amount }, entityBuffer, "WithdrawCollateral");
 }
 
 export async function depositForLending(
@@ -456,10 +498,63 @@ export async function depositForLending(
             amountDeposited: amount,
             amountDepositedUsdt: amounts.usdt.toNumber(),
             amountDepositedBtc: amounts.btc.toNumber(),
+            priceSource: amounts.priceSource,
+            priceConfidence: amounts.priceConfidence,
             comment: comment,
             currencySymbol: symbol
         })
     );
+    await updateLoanPosition(ctx, block, account, currency, { supplied: amount }, entityBuffer, "Deposit");
+}
+
+// rewards are paid in the loans pallet's RewardAssetId, which is the native currency
+async function storeLoanReward(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer,
+    type: LoanRewardType,
+    underlyingCurrencyId: CurrencyId_V1021000,
+    accountId: Uint8Array,
+    amount: bigint
+): Promise<void> {
+    const underlyingCurrency = currencyId.encode(underlyingCurrencyId);
+    const market = await ctx.store.get(LoanMarket, {
+        where: { id: `loanMarket_${currencyToString(underlyingCurrency)}` },
+    });
+    if (market === undefined) {
+        ctx.log.warn(
+            `WARNING: ${item.name} event did not match any existing LoanMarkets! Skipping.`
+        );
+        return;
+    }
+
+    const rewardCurrency = new NativeToken({ token: getNativeCurrency() });
+    let amountUsdt: number | undefined;
+    try {
+        const amounts = await getExchangeRate(ctx, block.timestamp, rewardCurrency, amount.toString());
+        amountUsdt = amounts.usdt.toNumber();
+    } catch (error) {
+        ctx.log.warn(`WARNING: unable to value loan reward ${item.event.id}: ${(error as Error).message}`);
+    }
+
+    const height = await blockToHeight(ctx, block.height, item.name);
+    await entityBuffer.pushEntity(
+        LoanReward.name,
+        new LoanReward({
+            id: item.event.id,
+            type,
+            accountId: address.parachain.encode(accountId),
+            market,
+            rewardCurrency,
+            currencySymbol: await tickerFromCurrency(rewardCurrency),
+            amount,
+            amountHuman: await convertAmountToHuman(rewardCurrency, amount),
+            amountUsdt,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
 }
 
 export async function distributeBorrowerReward(
@@ -469,6 +564,14 @@ export async function distributeBorrowerReward(
     entityBuffer: EntityBuffer
 ): Promise<void> {
     const rawEvent = new LoansDistributedBorrowerRewardEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1021000) {
+        e = rawEvent.asV1021000;
+    } else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: LoansDistributedBorrowerRewardEvent`);
+        return;
+    }
+    await storeLoanReward(ctx, block, item, entityBuffer, LoanRewardType.Borrower, e.underlyingCurrencyId, e.borrower, e.rewardDelta);
 }
 
 export async function distributeSupplierReward(
@@ -478,6 +581,14 @@ export async function distributeSupplierReward(
     entityBuffer: EntityBuffer
 ): Promise<void> {
     const rawEvent = new LoansDistributedSupplierRewardEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1021000) {
+        e = rawEvent.asV1021000;
+    } else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: LoansDistributedSupplierRewardEvent`);
+        return;
+    }
+    await storeLoanReward(ctx, block, item, entityBuffer, LoanRewardType.Supplier, e.underlyingCurrencyId, e.supplier, e.rewardDelta);
 }
 
 export async function repay(
@@ -519,10 +630,13 @@ export async function repay(
             amountRepaid: amount,
             amountRepaidUsdt: amounts.usdt.toNumber(),
             amountRepaidBtc: amounts.btc.toNumber(),
+            priceSource: amounts.priceSource,
+            priceConfidence: amounts.priceConfidence,
             comment: comment,
             currencySymbol: await tickerFromCurrency(currency)
         })
     );
+    await updateLoanPosition(ctx, block, account, currency, { borrowed: -amount }, entityBuffer, "LoansRepaid");
 }
 
 export async function withdrawDeposit(
@@ -565,10 +679,13 @@ export async function withdrawDeposit(
             amountWithdrawn: amount,
             amountWithdrawnUsdt: amounts.usdt.toNumber(),
             amountWithdrawnBtc: amounts.btc.toNumber(),
+            priceSource: amounts.priceSource,
+            priceConfidence: amounts.priceConfidence,
             comment: comment,
             currencySymbol: await tickerFromCurrency(currency)
         })
     );
+    await updateLoanPosition(ctx, block, account, currency, { supplied: -amount }, entityBuffer, "Redeemed");
 }
 
 export async function liquidateLoan(
@@ -594,6 +711,18 @@ export async function liquidateLoan(
         ctx.log.warn(`UNKOWN EVENT VERSION: LoansLiquidatedBorrowEvent`);
         return;
     }
+
+    const [market, collateralMarket] = await Promise.all([
+        ctx.store.get(LoanMarket, { where: { id: `loanMarket_${currencyToString(amountRepaidToken)}` } }),
+        ctx.store.get(LoanMarket, { where: { id: `loanMarket_${currencyToString(seizedCollateralToken)}` } }),
+    ]);
+    if (market === undefined || collateralMarket === undefined) {
+        ctx.log.warn(
+            "WARNING: LiquidatedBorrow event did not match any existing LoanMarkets! Skipping."
+        );
+        return;
+    }
+    const height = await blockToHeight(ctx, block.height, "LiquidatedBorrow");
     
     const amountRepaidExchangeRate = await getExchangeRate(ctx, block.timestamp, amountRepaidToken, amountRepaid.toString());
     const seizedCollateralExchangeRate = await getExchangeRate(ctx, block.timestamp, seizedCollateralToken, seizedCollateral.toString());
@@ -623,21 +752,67 @@ export async function liquidateLoan(
         LoanLiquidation.name,
         new LoanLiquidation({
             id: item.event.id,
+            borrower: address.parachain.encode(e.borrower),
+            liquidator: address.parachain.encode(e.liquidator),
+            market,
+            collateralMarket,
             amountRepaid: amountRepaid,
             amountRepaidHuman: BigDecimal(repaidAmount.toString()),
             amountRepaidToken: amountRepaidToken,
             amountRepaidSymbol: repaidCurrencyExt.ticker,
+            amountRepaidUsdt: amountRepaidExchangeRate.usdt.toNumber(),
+            amountRepaidBtc: amountRepaidExchangeRate.btc.toNumber(),
             seizedCollateral: seizedCollateral,
             seizedCollateralHuman: BigDecimal(seizedAmount.toString()),
             seizedCollateralToken: seizedCollateralToken,
             seizedCollateralSymbol: seizedCurrencyExt.ticker,
+            seizedCollateralUsdt: seizedCollateralExchangeRate.usdt.toNumber(),
+            seizedCollateralBtc: seizedCollateralExchangeRate.btc.toNumber(),
             liquidationCost,
             liquidationCostHuman,
             liquidationCostToken: seizedCollateralToken,
             liquidationCostSymbol: seizedCurrencyExt.ticker,
+            height,
             timestamp: new Date(block.timestamp),
         })
     );
+    // the borrower's debt is repaid by the liquidator, who seizes collateral lend tokens in return
+    const borrower = address.parachain.encode(e.borrower);
+    await updateLoanPosition(ctx, block, borrower, amountRepaidToken, { borrowed: -amountRepaid }, entityBuffer, "LiquidatedBorrow");
+    const exchangeRate = await getLendTokenExchangeRate(ctx, block, seizedCollateralToken, entityBuffer);
+    if (exchangeRate === undefined) {
+        ctx.log.warn(`WARNING: LiquidatedBorrow without a lend token exchange rate for ${currencyToString(seizedCollateralToken)}! Skipping seized collateral position update.`);
+        return;
+    }
+    const seizedLendTokens = (seizedCollateral * 10n ** BigInt(FIXEDI128_SCALING_FACTOR)) / exchangeRate;
+    await updateLoanPosition(ctx, block, borrower, seizedCollateralToken, { collateral: -seizedLendTokens }, entityBuffer, "LiquidatedBorrow");
+}
+
+// Lend tokens are minted and burnt by the loans pallet, transfers move them between accounts
+export async function lendTokenTransfer(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new TokensTransferEvent(ctx, item.event);
+    let myCurrencyId: CurrencyId_V1020000|CurrencyId_V1021000;
+    let from: Uint8Array;
+    let to: Uint8Array;
+    let amount: bigint;
+    if (rawEvent.isV1020000) {
+        ({ currencyId: myCurrencyId, from, to, amount } = rawEvent.asV1020000);
+    } else if (rawEvent.isV1021000) {
+        ({ currencyId: myCurrencyId, from, to, amount } = rawEvent.asV1021000);
+    } else {
+        // lend tokens do not exist in older runtimes
+        return;
+    }
+    if (myCurrencyId.__kind !== "LendToken") return;
+
+    const underlying = await toUnderlyingCurrency(ctx, currencyId.encode(myCurrencyId));
+    await updateLoanPosition(ctx, block, address.parachain.encode(from), underlying, { lendTokens: -amount }, entityBuffer, "LendTokenTransfer");
+    await updateLoanPosition(ctx, block, address.parachain.encode(to), underlying, { lendTokens: amount }, entityBuffer, "LendTokenTransfer");
 }
 
 // Whenever a loan is taken or repaid, interest is accrued by slightly changing the exchange rate
@@ -656,43 +831,59 @@ export async function accrueInterest(
     const height = await blockToHeight(ctx, block.height, "Interest Accrued");
     const symbol = await tickerFromCurrency(currency);
     const decimals = await decimalsFromCurrency(currency);
-    cachedRates.addRate(
-        block.height,
-        symbol,
-        ex,
-    );
 
     const totalBorrowsUsdtAndBtc = await getExchangeRate(ctx, block.timestamp, currency, interestAccrued.totalBorrows.toString());
     const totalReservesUsdtAndBtc = await getExchangeRate(ctx, block.timestamp, currency, interestAccrued.totalReserves.toString());
     const borrowIndexUsdtAndBtc = await getExchangeRate(ctx, block.timestamp, currency, interestAccrued.borrowIndex.toString());
     
-    await entityBuffer.pushEntity(
-        InterestAccrual.name,
-        new InterestAccrual({
-            id: item.event.id,
-            height: height,
-            timestamp: new Date(block.timestamp),
-            date: truncateTimestampToDate(block.timestamp),
-            underlyingCurrency: currency,
-            currencySymbol: symbol,
-            totalBorrows: interestAccrued.totalBorrows,
-            totalReserves: interestAccrued.totalReserves,
-            borrowIndex: interestAccrued.borrowIndex,
-            totalBorrowsNative: divideByTenToTheNth(interestAccrued.totalBorrows, decimals),
-            totalReservesNative: divideByTenToTheNth(interestAccrued.totalReserves, decimals),
-            borrowIndexNative: divideByTenToTheNth(interestAccrued.borrowIndex, decimals),
-            totalBorrowsUsdt: totalBorrowsUsdtAndBtc.usdt.toNumber(),
-            totalReservesUsdt: totalReservesUsdtAndBtc.usdt.toNumber(),
-            borrowIndexUsdt: borrowIndexUsdtAndBtc.usdt.toNumber(),
-            utilizationRatio: interestAccrued.utilizationRatio / PERMILL_BASE,
-            borrowRate: interestAccrued.borrowRate,
-            supplyRate: interestAccrued.supplyRate,
-            borrowRatePct: divideByTenToTheNth(interestAccrued.borrowRate, FIXEDI128_SCALING_FACTOR) * 100,
-            supplyRatePct: divideByTenToTheNth(interestAccrued.supplyRate, FIXEDI128_SCALING_FACTOR) * 100,
-            exchangeRate: interestAccrued.exchangeRate,
-            exchangeRateFloat: ex,
-            comment: `Exchange rate for ${symbol} now ${ex}`
-        })
+    const accrual = new InterestAccrual({
+        id: item.event.id,
+        height: height,
+        timestamp: new Date(block.timestamp),
+        date: truncateTimestampToDate(block.timestamp),
+        underlyingCurrency: currency,
+        currencySymbol: symbol,
+        totalBorrows: interestAccrued.totalBorrows,
+        totalReserves: interestAccrued.totalReserves,
+        borrowIndex: interestAccrued.borrowIndex,
+        totalBorrowsNative: divideByTenToTheNth(interestAccrued.totalBorrows, decimals),
+        totalReservesNative: divideByTenToTheNth(interestAccrued.totalReserves, decimals),
+        borrowIndexNative: divideByTenToTheNth(interestAccrued.borrowIndex, decimals),
+        totalBorrowsUsdt: totalBorrowsUsdtAndBtc.usdt.toNumber(),
+        totalReservesUsdt: totalReservesUsdtAndBtc.usdt.toNumber(),
+        borrowIndexUsdt: borrowIndexUsdtAndBtc.usdt.toNumber(),
+        utilizationRatio: interestAccrued.utilizationRatio / PERMILL_BASE,
+        borrowRate: interestAccrued.borrowRate,
+        supplyRate: interestAccrued.supplyRate,
+        borrowRatePct: divideByTenToTheNth(interestAccrued.borrowRate, FIXEDI128_SCALING_FACTOR) * 100,
+        supplyRatePct: divideByTenToTheNth(interestAccrued.supplyRate, FIXEDI128_SCALING_FACTOR) * 100,
+        exchangeRate: interestAccrued.exchangeRate,
+        exchangeRateFloat: ex,
+        comment: `Exchange rate for ${symbol} now ${ex}`,
+        priceSource: totalBorrowsUsdtAndBtc.priceSource,
+        priceConfidence: totalBorrowsUsdtAndBtc.priceConfidence,
+    });
+    await entityBuffer.pushEntity(InterestAccrual.name, accrual);
+
+    const market = await ctx.store.get(LoanMarket, `loanMarket_${currencyToString(currency)}`);
+    if (market === undefined) {
+        ctx.log.warn(
+            `WARNING: InterestAccrued event did not match any existing LoanMarkets (${symbol})! Skipping daily stats.`
+        );
+        return;
+    }
+    await updateLoanMarketDailyStats(
+        ctx,
+        market,
+        height,
+        accrual.timestamp,
+        entityBuffer,
+        {},
+        accrual,
+        {
+            totalBorrowsBtc: totalBorrowsUsdtAndBtc.btc.toNumber(),
+            totalReservesBtc: totalReservesUsdtAndBtc.btc.toNumber(),
+        }
     );
 }
 
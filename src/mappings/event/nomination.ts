@@ -0,0 +1,350 @@
+import { FIXEDI128_SCALING_FACTOR } from "@interlay/interbtc-api";
+import { SubstrateBlock } from "@subsquid/substrate-processor";
+import {
+    CumulativeNominatedCollateral,
+    Nomination,
+    NominationOptChange,
+} from "../../model";
+import { Ctx, EventItem } from "../../processor";
+import {
+    NominationDepositCollateralEvent,
+    NominationNominationOptInEvent,
+    NominationNominationOptOutEvent,
+    NominationWithdrawCollateralEvent,
+} from "../../types/events";
+import {
+    VaultStakingNonceStorage,
+    VaultStakingSlashPerTokenStorage,
+    VaultStakingSlashTallyStorage,
+    VaultStakingStakeStorage,
+} from "../../types/storage";
+import { VaultId as VaultIdV1020000 } from "../../types/v1020000";
+import { VaultId } from "../../types/v1021000";
+import { address, encodeVaultId } from "../encoding";
+import { updateCumulativeNominatedCollateral } from "../utils/cumulativeVolumes";
+import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
+import { applyVaultBalanceDeltas } from "../utils/vaultBalances";
+import { convertAmountToHuman, getVaultId } from "../_utils";
+
+/**
+ * Reads the current (slashed) stake of a nominator from chain storage as of
+ * the parent block. Used to seed nominations made in runtimes whose events
+ * cannot be decoded (before 1.20).
+ */
+async function getStoredNominatedAmount(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    vaultId: VaultId,
+    nominatorId: Uint8Array
+): Promise<bigint | undefined> {
+    const parentBlock = { hash: block.parentHash };
+    const nonceStorage = new VaultStakingNonceStorage(ctx, parentBlock);
+    const stakeStorage = new VaultStakingStakeStorage(ctx, parentBlock);
+    const slashPerTokenStorage = new VaultStakingSlashPerTokenStorage(
+        ctx,
+        parentBlock
+    );
+    const slashTallyStorage = new VaultStakingSlashTallyStorage(
+        ctx,
+        parentBlock
+    );
+
+    let stake: bigint;
+    let slashPerToken: bigint;
+    let slashTally: bigint;
+    if (
+        nonceStorage.isV1020000 &&
+        stakeStorage.isV1020000 &&
+        slashPerTokenStorage.isV1020000 &&
+        slashTallyStorage.isV1020000
+    ) {
+        // the vault id was decoded from a 1.20 event, so it only uses 1.20 currencies
+        const key = vaultId as VaultIdV1020000;
+        const nonce = await nonceStorage.getAsV1020000(key);
+        [stake, slashPerToken, slashTally] = await Promise.all([
+            stakeStorage.getAsV1020000(nonce, [key, nominatorId]),
+            slashPerTokenStorage.getAsV1020000(nonce, key),
+            slashTallyStorage.getAsV1020000(nonce, [key, nominatorId]),
+        ]);
+    } else if (
+        nonceStorage.isV1021000 &&
+        stakeStorage.isV1021000 &&
+        slashPerTokenStorage.isV1021000 &&
+        slashTallyStorage.isV1021000
+    ) {
+        const nonce = await nonceStorage.getAsV1021000(vaultId);
+        [stake, slashPerToken, slashTally] = await Promise.all([
+            stakeStorage.getAsV1021000(nonce, [vaultId, nominatorId]),
+            slashPerTokenStorage.getAsV1021000(nonce, vaultId),
+            slashTallyStorage.getAsV1021000(nonce, [vaultId, nominatorId]),
+        ]);
+    } else {
+        return undefined;
+    }
+
+    // same computation as the staking pallet, all values are fixed point
+    const scale = 10n ** BigInt(FIXEDI128_SCALING_FACTOR);
+    const toBeSlashed = (stake * slashPerToken) / scale - slashTally;
+    return (stake - toBeSlashed) / scale;
+}
+
+async function updateNomination(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    vaultId: VaultId,
+    nominatorId: Uint8Array,
+    amount: bigint,
+    entityBuffer: EntityBuffer,
+    eventName: string
+): Promise<void> {
+    const vault = await getVaultId(ctx.store, vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for ${eventName} with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+    const nominator = address.parachain.encode(nominatorId);
+    if (nominator === vault.accountId) {
+        // the vault's own collateral, not a nomination
+        return;
+    }
+
+    const id = `${vault.id}-${nominator}`;
+    const height = await blockToHeight(ctx, block.height, eventName);
+    const timestamp = new Date(block.timestamp);
+    let nomination =
+        (entityBuffer.getBufferedEntityBy(Nomination.name, id) as Nomination) ||
+        (await ctx.store.get(Nomination, id));
+    // collateral nominated before the first decodable event, counted as part of this change
+    let seeded = 0n;
+    if (nomination === undefined) {
+        const stored = await getStoredNominatedAmount(
+            ctx,
+            block,
+            vaultId,
+            nominatorId
+        );
+        if (stored === undefined) {
+            ctx.log.warn(
+                `UNKOWN STORAGE VERSION: could not seed nomination ${id} from chain storage; starting from zero`
+            );
+        }
+        seeded = stored || 0n;
+        nomination = new Nomination({
+            id,
+            vault,
+            nominatorId: nominator,
+            amount: seeded,
+        });
+    }
+    nomination.amount += amount;
+    nomination.amountHuman = await convertAmountToHuman(
+        vault.collateralToken,
+        nomination.amount
+    );
+    nomination.height = height;
+    nomination.timestamp = timestamp;
+    entityBuffer.pushEntity(Nomination.name, nomination);
+
+    entityBuffer.pushEntity(
+        CumulativeNominatedCollateral.name,
+        await updateCumulativeNominatedCollateral(
+            ctx.store,
+            vault,
+            seeded + amount,
+            timestamp,
+            entityBuffer
+        )
+    );
+}
+
+export async function depositNominationCollateral(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new NominationDepositCollateralEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Nomination.depositCollateral`);
+        return;
+    }
+
+    // vaults deposit their own collateral through the nomination pallet as well
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { collateral: e.amount },
+        entityBuffer,
+        "DepositCollateral"
+    );
+    await updateNomination(
+        ctx,
+        block,
+        e.vaultId,
+        e.nominatorId,
+        e.amount,
+        entityBuffer,
+        "DepositCollateral"
+    );
+}
+
+export async function withdrawNominationCollateral(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new NominationWithdrawCollateralEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Nomination.withdrawCollateral`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { collateral: -e.amount },
+        entityBuffer,
+        "WithdrawCollateral"
+    );
+    await updateNomination(
+        ctx,
+        block,
+        e.vaultId,
+        e.nominatorId,
+        -e.amount,
+        entityBuffer,
+        "WithdrawCollateral"
+    );
+}
+
+export async function nominationOptIn(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new NominationNominationOptInEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Nomination.nominationOptIn`);
+        return;
+    }
+
+    const vault = await getVaultId(ctx.store, e.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for NominationOptIn with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                e.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "NominationOptIn");
+    entityBuffer.pushEntity(
+        NominationOptChange.name,
+        new NominationOptChange({
+            id: item.event.id,
+            vault,
+            optedIn: true,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
+
+export async function nominationOptOut(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new NominationNominationOptOutEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Nomination.nominationOptOut`);
+        return;
+    }
+
+    const vault = await getVaultId(ctx.store, e.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for NominationOptOut with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                e.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "NominationOptOut");
+    const timestamp = new Date(block.timestamp);
+    entityBuffer.pushEntity(
+        NominationOptChange.name,
+        new NominationOptChange({
+            id: item.event.id,
+            vault,
+            optedIn: false,
+            height,
+            timestamp,
+        })
+    );
+
+    // opting out force-refunds all nominators, close their positions
+    // buffered positions are more recent than stored ones
+    const nominations = new Map<string, Nomination>();
+    for (const stored of await ctx.store.find(Nomination, {
+        where: { vault: { id: vault.id } },
+    })) {
+        nominations.set(stored.id, stored);
+    }
+    for (const buffered of entityBuffer.getBufferedEntities(
+        Nomination.name
+    ) as Nomination[]) {
+        if (buffered.vault.id === vault.id) {
+            nominations.set(buffered.id, buffered);
+        }
+    }
+    let refunded = 0n;
+    for (const nomination of nominations.values()) {
+        if (nomination.amount === 0n) continue;
+        refunded += nomination.amount;
+        nomination.amount = 0n;
+        nomination.amountHuman = await convertAmountToHuman(
+            vault.collateralToken,
+            0n
+        );
+        nomination.height = height;
+        nomination.timestamp = timestamp;
+        entityBuffer.pushEntity(Nomination.name, nomination);
+    }
+    if (refunded > 0n) {
+        entityBuffer.pushEntity(
+            CumulativeNominatedCollateral.name,
+            await updateCumulativeNominatedCollateral(
+                ctx.store,
+                vault,
+                -refunded,
+                timestamp,
+                entityBuffer
+            )
+        );
+    }
+}
@@ -1,15 +1,20 @@
 import { tokenSymbolToCurrency } from "@interlay/interbtc-api";
 import { BigDecimal } from "@subsquid/big-decimal";
 import { SubstrateBlock } from "@subsquid/substrate-processor";
-import { Currency, NativeToken, OracleUpdate, OracleUpdateType, Token } from "../../model";
+import { Equal, In, MoreThan } from "typeorm";
+import { Currency, LoanHealth, LoanMarket, LoanPosition, NativeToken, OracleUpdate, OracleUpdateType, Token, Vault, VaultCollateralization } from "../../model";
 import { Ctx, EventItem } from "../../processor";
 import { OracleFeedValuesEvent } from "../../types/events";
 import { CurrencyId as CurrencyId_V15 } from "../../types/v15";
 import { CurrencyId as CurrencyId_V17 } from "../../types/v17";
-import { address, currencyId, legacyCurrencyId } from "../encoding";
+import { address, currencyId, currencyToString, legacyCurrencyId } from "../encoding";
 import EntityBuffer from "../utils/entityBuffer";
 import { blockToHeight } from "../utils/heights";
-import { convertAmountToHuman } from "../_utils";
+import { newLoanValuationCache, updateLoanHealth } from "../utils/loanPositions";
+import { updatePriceCandles } from "../utils/priceCandles";
+import { getLatestVaultBalanceSnapshot } from "../utils/vaultBalances";
+import { updateVaultCollateralization } from "../utils/vaultCollateralization";
+import { convertAmountToHuman, getExchangeRate, getUsdtAssetId } from "../_utils";
 
 export async function feedValues(
     ctx: Ctx,
@@ -32,6 +37,7 @@ export async function feedValues(
         ctx.log.warn(`UNKOWN EVENT VERSION: Oracle.feedValues`);
         return;
     }
+    const exchangeRates: [Currency, bigint][] = [];
     for (const [key, value] of e.values) {
         const height = await blockToHeight(ctx, block.height, "FeedValues");
         const oracleAddress = address.parachain.encode(e.oracleId);
@@ -49,8 +55,10 @@ export async function feedValues(
                 ? legacyCurrencyId.encode(key.value as CurrencyId_V15)
                 : currencyId.encode(key.value as CurrencyId_V17);
             update.typeKey = exchangeCurrency;
+            update.currencyKey = currencyToString(exchangeCurrency);
             keyToString += JSON.stringify(exchangeCurrency);
             updateValueHuman = await convertAmountToHuman(update.typeKey, value);
+            exchangeRates.push([exchangeCurrency, value]);
         }
         else { // FeeEstimation
             if (process.env.SS58_CODEC === "kintsugi") {
@@ -67,4 +75,179 @@ export async function feedValues(
         update.id = `${oracleAddress}-${item.event.id}-${keyToString}`;
         entityBuffer.pushEntity(OracleUpdate.name, update);
     }
+
+    // USDT first, other currencies' USDT prices are derived from it
+    const usdtAssetId = getUsdtAssetId();
+    const isUsdt = ([currency]: [Currency, bigint]) =>
+        currency.isTypeOf === "ForeignAsset" && currency.asset === usdtAssetId;
+    const height = await blockToHeight(ctx, block.height, "FeedValues");
+    for (const [currency, value] of [...exchangeRates.filter(isUsdt), ...exchangeRates.filter((rate) => !isUsdt(rate))]) {
+        await updatePriceCandles(ctx, currency, value, height, new Date(block.timestamp), entityBuffer);
+    }
+}
+
+// currencies whose exchange rate was fed, undefined if the event cannot be decoded
+function decodeFedCurrencies(
+    ctx: Ctx,
+    item: EventItem,
+    mappingName: string
+): Currency[] | undefined {
+    const rawEvent = new OracleFeedValuesEvent(ctx, item.event);
+    let e;
+    let useLegacyCurrency = false;
+    if (rawEvent.isV6 || rawEvent.isV15) {
+        useLegacyCurrency = true;
+    }
+    if (rawEvent.isV6) e = rawEvent.asV6;
+    else if (rawEvent.isV15) e = rawEvent.asV15;
+    else if (rawEvent.isV17) e = rawEvent.asV17;
+    else if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Oracle.${mappingName}`);
+        return undefined;
+    }
+
+    const currencies: Currency[] = [];
+    for (const [key] of e.values) {
+        if (key.__kind === "ExchangeRate") {
+            currencies.push(
+                useLegacyCurrency
+                    ? legacyCurrencyId.encode(key.value as CurrencyId_V15)
+                    : currencyId.encode(key.value as CurrencyId_V17)
+            );
+        }
+    }
+    return currencies;
+}
+
+// revalues all vaults holding a collateral currency whose exchange rate was fed
+export async function updateVaultCollateralizations(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const currencies = decodeFedCurrencies(ctx, item, "updateVaultCollateralizations");
+    if (currencies === undefined || currencies.length === 0) {
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "FeedValues");
+    const timestamp = new Date(block.timestamp);
+    for (const currency of currencies) {
+        const vaults = await ctx.store.find(Vault, {
+            where: { collateralToken: Equal(currency) },
+        });
+        if (vaults.length === 0) {
+            continue;
+        }
+
+        // one exchange rate for all vaults of the currency
+        let btcExchangeRate;
+        try {
+            ({ btcExchangeRate } = await getExchangeRate(
+                ctx,
+                timestamp.getTime(),
+                currency,
+                0
+            ));
+        } catch (error) {
+            ctx.log.warn(
+                `WARNING: unable to revalue vaults with collateral ${JSON.stringify(
+                    currency.toJSON()
+                )} at ${timestamp.toISOString()}: ${(error as Error).message}`
+            );
+            continue;
+        }
+
+        for (const vault of vaults) {
+            const snapshot = await getLatestVaultBalanceSnapshot(
+                ctx.store,
+                vault.id,
+                timestamp,
+                entityBuffer
+            );
+            // nothing issued means there is no ratio to update
+            if (snapshot === undefined || snapshot.issuedTokens === 0n) {
+                continue;
+            }
+
+            const collateralization = await updateVaultCollateralization(
+                ctx,
+                vault,
+                snapshot,
+                height,
+                timestamp,
+                btcExchangeRate
+            );
+            if (collateralization !== undefined) {
+                entityBuffer.pushEntity(VaultCollateralization.name, collateralization);
+            }
+        }
+    }
+}
+
+// recomputes the health of all borrowers exposed to a currency whose exchange rate was fed
+export async function updateLoanHealthFactors(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const currencies = decodeFedCurrencies(ctx, item, "updateLoanHealthFactors");
+    if (currencies === undefined || currencies.length === 0) {
+        return;
+    }
+
+    // accounts with collateral or borrows in a market whose price changed
+    const markets = await ctx.store.find(LoanMarket, {
+        where: currencies.map((currency) => ({ token: Equal(currency) })),
+    });
+    if (markets.length === 0) {
+        return;
+    }
+    const marketIds = In(markets.map((market) => market.id));
+    const affectedPositions = await ctx.store.find(LoanPosition, {
+        where: [
+            { market: { id: marketIds }, collateral: MoreThan(0n) },
+            { market: { id: marketIds }, borrowed: MoreThan(0n) },
+        ],
+    });
+    const accountIds = [
+        ...new Set(affectedPositions.map((position) => position.accountId)),
+    ];
+    if (accountIds.length === 0) {
+        return;
+    }
+
+    // health covers all markets of an account, load their positions at once
+    const positionsByAccount = new Map<string, LoanPosition[]>();
+    for (const position of await ctx.store.find(LoanPosition, {
+        where: { accountId: In(accountIds) },
+        relations: { market: true },
+    })) {
+        const positions = positionsByAccount.get(position.accountId) || [];
+        positions.push(position);
+        positionsByAccount.set(position.accountId, positions);
+    }
+
+    const height = await blockToHeight(ctx, block.height, "FeedValues");
+    const timestamp = new Date(block.timestamp);
+    // prices and interest accruals are the same for all accounts
+    const cache = newLoanValuationCache();
+    for (const accountId of accountIds) {
+        const health = await updateLoanHealth(
+            ctx,
+            accountId,
+            height,
+            timestamp,
+            entityBuffer,
+            positionsByAccount.get(accountId) || [],
+            cache
+        );
+        if (health !== undefined) {
+            entityBuffer.pushEntity(LoanHealth.name, health);
+        }
+    }
 }
@@ -0,0 +1,287 @@
+import { SubstrateBlock, toHex } from "@subsquid/substrate-processor";
+import { LessThanOrEqual } from "typeorm";
+import {
+    RelayedBlock,
+    Replace,
+    ReplaceCancellation,
+    ReplaceExecution,
+    ReplaceOffer,
+    ReplaceOfferType,
+    ReplacePeriod,
+    ReplaceRequest,
+    ReplaceStatus,
+} from "../../model";
+import { Ctx, EventItem } from "../../processor";
+import {
+    ReplaceAcceptReplaceEvent,
+    ReplaceCancelReplaceEvent,
+    ReplaceExecuteReplaceEvent,
+    ReplaceReplacePeriodChangeEvent,
+    ReplaceRequestReplaceEvent,
+    ReplaceWithdrawReplaceEvent,
+} from "../../types/events";
+import { VaultId } from "../../types/v1021000";
+import { address, encodeVaultId } from "../encoding";
+import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
+import { getCurrentReplacePeriod } from "../utils/requestPeriods";
+import { getVaultId } from "../_utils";
+
+async function storeReplaceOffer(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer,
+    vaultId: VaultId,
+    offer: {
+        type: ReplaceOfferType;
+        amount: bigint;
+        griefingCollateral: bigint;
+    }
+): Promise<void> {
+    const vault = await getVaultId(ctx.store, vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for replace offer with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "ReplaceOffer");
+    entityBuffer.pushEntity(
+        ReplaceOffer.name,
+        new ReplaceOffer({
+            id: item.event.id,
+            vault,
+            ...offer,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
+
+export async function requestReplace(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceRequestReplaceEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.requestReplace`);
+        return;
+    }
+
+    await storeReplaceOffer(ctx, block, item, entityBuffer, e.oldVaultId, {
+        type: ReplaceOfferType.Requested,
+        amount: e.amount,
+        griefingCollateral: e.griefingCollateral,
+    });
+}
+
+export async function withdrawReplace(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceWithdrawReplaceEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.withdrawReplace`);
+        return;
+    }
+
+    await storeReplaceOffer(ctx, block, item, entityBuffer, e.oldVaultId, {
+        type: ReplaceOfferType.Withdrawn,
+        amount: e.withdrawnTokens,
+        griefingCollateral: e.withdrawnGriefingCollateral,
+    });
+}
+
+export async function acceptReplace(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceAcceptReplaceEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.acceptReplace`);
+        return;
+    }
+
+    const [oldVault, newVault] = await Promise.all([
+        getVaultId(ctx.store, e.oldVaultId),
+        getVaultId(ctx.store, e.newVaultId),
+    ]);
+    if (oldVault === undefined || newVault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for replace request ${toHex(
+                e.replaceId
+            )}, with encoded account-wrapped-collateral IDs of ${encodeVaultId(
+                e.oldVaultId
+            )} and ${encodeVaultId(
+                e.newVaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const period = await getCurrentReplacePeriod(ctx, block);
+    const height = await blockToHeight(ctx, block.height, "AcceptReplace");
+
+    const backingBlock = await ctx.store.get(RelayedBlock, {
+        order: { backingHeight: "DESC" },
+        relations: { relayedAtHeight: true },
+        where: {
+            relayedAtHeight: {
+                absolute: LessThanOrEqual(height.absolute),
+            },
+        },
+    });
+    if (backingBlock === undefined) {
+        ctx.log.warn(
+            `WARNING: no BTC blocks relayed before replace request ${toHex(
+                e.replaceId
+            )} (at parachain absolute height ${height.absolute})`
+        );
+    }
+
+    entityBuffer.pushEntity(
+        Replace.name,
+        new Replace({
+            id: toHex(e.replaceId),
+            request: new ReplaceRequest({
+                amount: e.amount,
+                height: height.id,
+                timestamp: new Date(block.timestamp),
+                backingHeight: backingBlock?.backingHeight || 0,
+            }),
+            oldVault,
+            newVault,
+            collateral: e.collateral,
+            btcAddress: address.btc.encode(e.btcAddress),
+            period,
+            status: ReplaceStatus.Pending,
+        })
+    );
+}
+
+export async function executeReplace(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceExecuteReplaceEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.executeReplace`);
+        return;
+    }
+
+    const replace = await ctx.store.get(Replace, {
+        where: { id: toHex(e.replaceId) },
+    });
+    if (replace === undefined) {
+        ctx.log.warn(
+            "WARNING: ExecuteReplace event did not match any existing replace requests! Skipping."
+        );
+        return;
+    }
+    const height = await blockToHeight(ctx, block.height, "ExecuteReplace");
+    const execution = new ReplaceExecution({
+        id: replace.id,
+        replace,
+        height,
+        timestamp: new Date(block.timestamp),
+    });
+    replace.status = ReplaceStatus.Completed;
+    replace.execution = execution;
+
+    entityBuffer.pushEntity(ReplaceExecution.name, execution);
+    entityBuffer.pushEntity(Replace.name, replace);
+}
+
+export async function cancelReplace(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceCancelReplaceEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.cancelReplace`);
+        return;
+    }
+
+    const replace = await ctx.store.get(Replace, {
+        where: { id: toHex(e.replaceId) },
+    });
+    if (replace === undefined) {
+        ctx.log.warn(
+            "WARNING: CancelReplace event did not match any existing replace requests! Skipping."
+        );
+        return;
+    }
+    const height = await blockToHeight(ctx, block.height, "CancelReplace");
+    const cancellation = new ReplaceCancellation({
+        id: replace.id,
+        replace,
+        griefingCollateral: e.griefingCollateral,
+        height,
+        timestamp: new Date(block.timestamp),
+    });
+    replace.status = ReplaceStatus.Cancelled;
+    replace.cancellation = cancellation;
+
+    entityBuffer.pushEntity(ReplaceCancellation.name, cancellation);
+    entityBuffer.pushEntity(Replace.name, replace);
+}
+
+export async function replacePeriodChange(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new ReplaceReplacePeriodChangeEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Replace.replacePeriodChange`);
+        return;
+    }
+
+    const height = await blockToHeight(
+        ctx,
+        block.height,
+        "ReplacePeriodChange"
+    );
+
+    entityBuffer.pushEntity(
+        ReplacePeriod.name,
+        new ReplacePeriod({
+            id: item.event.id,
+            height,
+            timestamp: new Date(block.timestamp),
+            value: e.period,
+        })
+    );
+}
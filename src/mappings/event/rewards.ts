@@ -0,0 +1,135 @@
+import { FIXEDI128_SCALING_FACTOR } from "@interlay/interbtc-api";
+import { SubstrateBlock } from "@subsquid/substrate-processor";
+import { RewardAccrual, RewardAccrualType } from "../../model";
+import { Ctx, EventItem } from "../../processor";
+import {
+    VaultStakingDistributeRewardEvent,
+    VaultStakingWithdrawRewardEvent,
+} from "../../types/events";
+import { CurrencyId, VaultId } from "../../types/v1021000";
+import { address, currencyId, encodeVaultId } from "../encoding";
+import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
+import {
+    convertAmountToHuman,
+    getExchangeRate,
+    getVaultId,
+    tickerFromCurrency,
+} from "../_utils";
+
+async function storeRewardAccrual(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer,
+    reward: {
+        type: RewardAccrualType;
+        vaultId: VaultId;
+        accountId?: Uint8Array;
+        currencyId: CurrencyId;
+        fixedPointAmount: bigint;
+    }
+): Promise<void> {
+    const vault = await getVaultId(ctx.store, reward.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for ${item.name} with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                reward.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const currency = currencyId.encode(reward.currencyId);
+    // staking amounts are signed fixed point numbers, truncate to atomic units
+    const amount =
+        reward.fixedPointAmount / 10n ** BigInt(FIXEDI128_SCALING_FACTOR);
+    let amountBtc: number | undefined;
+    let amountUsdt: number | undefined;
+    try {
+        const amounts = await getExchangeRate(
+            ctx,
+            block.timestamp,
+            currency,
+            amount.toString()
+        );
+        amountBtc = amounts.btc.toNumber();
+        amountUsdt = amounts.usdt.toNumber();
+    } catch (error) {
+        ctx.log.warn(
+            `WARNING: unable to value reward ${item.event.id}: ${
+                (error as Error).message
+            }`
+        );
+    }
+
+    const height = await blockToHeight(ctx, block.height, item.name);
+    entityBuffer.pushEntity(
+        RewardAccrual.name,
+        new RewardAccrual({
+            id: item.event.id,
+            type: reward.type,
+            // distributions go to the whole staking pool of the vault
+            accountId:
+                reward.accountId === undefined
+                    ? null
+                    : address.parachain.encode(reward.accountId),
+            vault,
+            currency,
+            currencySymbol: await tickerFromCurrency(currency),
+            amount,
+            amountHuman: await convertAmountToHuman(currency, amount),
+            amountBtc,
+            amountUsdt,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
+
+export async function distributeVaultReward(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultStakingDistributeRewardEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: VaultStaking.distributeReward`);
+        return;
+    }
+
+    await storeRewardAccrual(ctx, block, item, entityBuffer, {
+        type: RewardAccrualType.Distributed,
+        vaultId: e.vaultId,
+        currencyId: e.currencyId,
+        fixedPointAmount: e.amount,
+    });
+}
+
+export async function withdrawVaultReward(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultStakingWithdrawRewardEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: VaultStaking.withdrawReward`);
+        return;
+    }
+
+    await storeRewardAccrual(ctx, block, item, entityBuffer, {
+        type: RewardAccrualType.Withdrawn,
+        vaultId: e.vaultId,
+        accountId: e.nominatorId,
+        currencyId: e.currencyId,
+        fixedPointAmount: e.amount,
+    });
+}
@@ -2,12 +2,26 @@ import { SubstrateBlock } from "@subsquid/substrate-processor";
 import {
     CumulativeVolumePerCurrencyPair,
     Vault,
+    VaultBalanceSnapshot,
+    VaultBan,
+    VaultLiquidation,
     VolumeType,
 } from "../../model";
 import { Ctx, EventItem } from "../../processor";
 import {
+    VaultRegistryBanVaultEvent,
     VaultRegistryDecreaseLockedCollateralEvent,
+    VaultRegistryDecreaseToBeIssuedTokensEvent,
+    VaultRegistryDecreaseToBeRedeemedTokensEvent,
+    VaultRegistryDecreaseTokensEvent,
     VaultRegistryIncreaseLockedCollateralEvent,
+    VaultRegistryIncreaseToBeIssuedTokensEvent,
+    VaultRegistryIncreaseToBeRedeemedTokensEvent,
+    VaultRegistryIssueTokensEvent,
+    VaultRegistryLiquidateVaultEvent,
+    VaultRegistryRedeemTokensEvent,
+    VaultRegistryRedeemTokensLiquidatedVaultEvent,
+    VaultRegistryRedeemTokensPremiumEvent,
     VaultRegistryRegisterVaultEvent,
 } from "../../types/events";
 import {
@@ -19,7 +33,12 @@ import {
 } from "../encoding";
 import EntityBuffer from "../utils/entityBuffer";
 import { blockToHeight } from "../utils/heights";
-import { convertAmountToHuman } from "../_utils";
+import {
+    applyVaultBalanceDeltas,
+    getLiquidationDeltas,
+    updateVaultBalanceSnapshot,
+} from "../utils/vaultBalances";
+import { convertAmountToHuman, getVaultId } from "../_utils";
 
 export async function registerVault(
     ctx: Ctx,
@@ -59,17 +78,31 @@ export async function registerVault(
         block.height,
         "RegisterVault"
     );
-    entityBuffer.pushEntity(
-        Vault.name,
-        new Vault({
-            id: vaultId,
-            accountId: address.parachain.encode(e.vaultId.accountId),
-            wrappedToken,
-            collateralToken,
-            registrationBlock: registrationBlock,
-            registrationTimestamp: new Date(block.timestamp),
-        })
-    );
+    const vault = new Vault({
+        id: vaultId,
+        accountId: address.parachain.encode(e.vaultId.accountId),
+        wrappedToken,
+        collateralToken,
+        registrationBlock: registrationBlock,
+        registrationTimestamp: new Date(block.timestamp),
+    });
+    entityBuffer.pushEntity(Vault.name, vault);
+
+    // balance events before 1.20 cannot be decoded, so vaults registered
+    // earlier get their first snapshot seeded from chain storage instead
+    if (rawEvent.isV1020000 || rawEvent.isV1021000) {
+        entityBuffer.pushEntity(
+            VaultBalanceSnapshot.name,
+            await updateVaultBalanceSnapshot(
+                ctx,
+                block,
+                vault,
+                { collateral: e.collateral },
+                registrationBlock,
+                entityBuffer
+            )
+        );
+    }
 }
 
 export async function increaseLockedCollateral(
@@ -161,3 +194,345 @@ export async function decreaseLockedCollateral(
         })
     );
 }
+
+export async function liquidateVault(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryLiquidateVaultEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.liquidateVault`);
+        return;
+    }
+
+    const vault = await getVaultId(ctx.store, e.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for liquidation with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                e.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "LiquidateVault");
+    entityBuffer.pushEntity(
+        VaultLiquidation.name,
+        new VaultLiquidation({
+            id: item.event.id,
+            vault,
+            issuedTokens: e.issuedTokens,
+            toBeIssuedTokens: e.toBeIssuedTokens,
+            toBeRedeemedTokens: e.toBeRedeemedTokens,
+            toBeReplacedTokens: e.toBeReplacedTokens,
+            backingCollateral: e.backingCollateral,
+            backingCollateralHuman: await convertAmountToHuman(
+                vault.collateralToken,
+                e.backingCollateral
+            ),
+            replaceCollateral: e.replaceCollateral,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        getLiquidationDeltas(e),
+        entityBuffer,
+        "LiquidateVault"
+    );
+}
+
+export async function banVault(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryBanVaultEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.banVault`);
+        return;
+    }
+
+    const vault = await getVaultId(ctx.store, e.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for ban with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                e.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, "BanVault");
+    entityBuffer.pushEntity(
+        VaultBan.name,
+        new VaultBan({
+            id: item.event.id,
+            vault,
+            bannedUntil: e.bannedUntil,
+            height,
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
+
+export async function increaseToBeIssuedTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryIncreaseToBeIssuedTokensEvent(
+        ctx,
+        item.event
+    );
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.increaseToBeIssuedTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { toBeIssued: e.increase },
+        entityBuffer,
+        "IncreaseToBeIssuedTokens"
+    );
+}
+
+export async function decreaseToBeIssuedTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryDecreaseToBeIssuedTokensEvent(
+        ctx,
+        item.event
+    );
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.decreaseToBeIssuedTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { toBeIssued: -e.decrease },
+        entityBuffer,
+        "DecreaseToBeIssuedTokens"
+    );
+}
+
+export async function issueTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryIssueTokensEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.issueTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { issued: e.increase, toBeIssued: -e.increase },
+        entityBuffer,
+        "IssueTokens"
+    );
+}
+
+export async function increaseToBeRedeemedTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryIncreaseToBeRedeemedTokensEvent(
+        ctx,
+        item.event
+    );
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.increaseToBeRedeemedTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { toBeRedeemed: e.increase },
+        entityBuffer,
+        "IncreaseToBeRedeemedTokens"
+    );
+}
+
+export async function decreaseToBeRedeemedTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryDecreaseToBeRedeemedTokensEvent(
+        ctx,
+        item.event
+    );
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.decreaseToBeRedeemedTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { toBeRedeemed: -e.decrease },
+        entityBuffer,
+        "DecreaseToBeRedeemedTokens"
+    );
+}
+
+export async function redeemTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryRedeemTokensEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.redeemTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { issued: -e.redeemedAmount, toBeRedeemed: -e.redeemedAmount },
+        entityBuffer,
+        "RedeemTokens"
+    );
+}
+
+export async function redeemTokensPremium(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryRedeemTokensPremiumEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.redeemTokensPremium`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        {
+            issued: -e.redeemedAmount,
+            toBeRedeemed: -e.redeemedAmount,
+            collateral: -e.collateral,
+        },
+        entityBuffer,
+        "RedeemTokensPremium"
+    );
+}
+
+export async function redeemTokensLiquidatedVault(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryRedeemTokensLiquidatedVaultEvent(
+        ctx,
+        item.event
+    );
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.redeemTokensLiquidatedVault`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        {
+            issued: -e.tokens,
+            toBeRedeemed: -e.tokens,
+            collateral: -e.collateral,
+        },
+        entityBuffer,
+        "RedeemTokensLiquidatedVault"
+    );
+}
+
+export async function decreaseTokens(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: EventItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const rawEvent = new VaultRegistryDecreaseTokensEvent(ctx, item.event);
+    let e;
+    if (rawEvent.isV1020000) e = rawEvent.asV1020000;
+    else if (rawEvent.isV1021000) e = rawEvent.asV1021000;
+    else {
+        ctx.log.warn(`UNKOWN EVENT VERSION: Vault.decreaseTokens`);
+        return;
+    }
+
+    await applyVaultBalanceDeltas(
+        ctx,
+        block,
+        e.vaultId,
+        { issued: -e.decrease, toBeRedeemed: -e.decrease },
+        entityBuffer,
+        "DecreaseTokens"
+    );
+}
@@ -1,2 +1,5 @@
 export * from "./updateVaultActivity";
 export * from "./system";
+export * from "./issuePayment";
+export * from "./redeemPayment";
+export * from "./undercollateralizationReport";
@@ -0,0 +1,79 @@
+import { SubstrateBlock, toHex } from "@subsquid/substrate-processor";
+import { Issue, IssuePayment } from "../../model";
+import { CallItem, Ctx } from "../../processor";
+import { IssueExecuteIssueCall } from "../../types/calls";
+import { address } from "../encoding";
+import {
+    BtcPayment,
+    decodeBtcPayment,
+    decodeRawBtcPayment,
+    getBtcPaymentConfirmations,
+} from "../utils/btcPayments";
+import EntityBuffer from "../utils/entityBuffer";
+
+export async function storeIssuePayment(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: CallItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    if (!item.call.success) {
+        return;
+    }
+    const call = new IssueExecuteIssueCall(ctx, item.call);
+    let issueId: Uint8Array;
+    let payment: BtcPayment | undefined;
+    if (call.isV1021000) {
+        const c = call.asV1021000;
+        issueId = c.issueId;
+        payment = decodeRawBtcPayment(c.merkleProof, c.rawTx);
+    } else if (call.isV1024000) {
+        const c = call.asV1024000;
+        issueId = c.issueId;
+        payment = decodeBtcPayment(c.merkleProof, c.transaction);
+    } else {
+        ctx.log.warn(`UNKOWN CALL VERSION: Issue.execute_issue`);
+        return;
+    }
+    if (payment === undefined) {
+        ctx.log.warn(
+            `WARNING: merkle proof of execute_issue for ${toHex(
+                issueId
+            )} matches no transaction. Skipping.`
+        );
+        return;
+    }
+
+    const issue = await ctx.store.get(Issue, toHex(issueId));
+    if (issue === undefined) {
+        ctx.log.warn(
+            "WARNING: execute_issue call did not match any existing issue requests! Skipping."
+        );
+        return;
+    }
+
+    const amount = payment.outputs
+        .filter(
+            (output) =>
+                address.btc.fromOutputScript(output.script) ===
+                issue.vaultBackingAddress
+        )
+        .reduce((sum, output) => sum + output.value, 0n);
+    const { blockHeight, confirmations } = await getBtcPaymentConfirmations(
+        ctx.store,
+        payment,
+        new Date(block.timestamp)
+    );
+
+    entityBuffer.pushEntity(
+        IssuePayment.name,
+        new IssuePayment({
+            id: issue.id,
+            issue,
+            btcTxId: payment.txId,
+            confirmations,
+            blockHeight,
+            amount,
+        })
+    );
+}
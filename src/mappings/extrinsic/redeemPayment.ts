@@ -0,0 +1,70 @@
+import { SubstrateBlock, toHex } from "@subsquid/substrate-processor";
+import { Redeem, RedeemPayment } from "../../model";
+import { CallItem, Ctx } from "../../processor";
+import { RedeemExecuteRedeemCall } from "../../types/calls";
+import {
+    BtcPayment,
+    decodeBtcPayment,
+    decodeRawBtcPayment,
+    getBtcPaymentConfirmations,
+} from "../utils/btcPayments";
+import EntityBuffer from "../utils/entityBuffer";
+
+export async function storeRedeemPayment(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: CallItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    if (!item.call.success) {
+        return;
+    }
+    const call = new RedeemExecuteRedeemCall(ctx, item.call);
+    let redeemId: Uint8Array;
+    let payment: BtcPayment | undefined;
+    if (call.isV1021000) {
+        const c = call.asV1021000;
+        redeemId = c.redeemId;
+        payment = decodeRawBtcPayment(c.merkleProof, c.rawTx);
+    } else if (call.isV1024000) {
+        const c = call.asV1024000;
+        redeemId = c.redeemId;
+        payment = decodeBtcPayment(c.merkleProof, c.transaction);
+    } else {
+        ctx.log.warn(`UNKOWN CALL VERSION: Redeem.execute_redeem`);
+        return;
+    }
+    if (payment === undefined) {
+        ctx.log.warn(
+            `WARNING: merkle proof of execute_redeem for ${toHex(
+                redeemId
+            )} matches no transaction. Skipping.`
+        );
+        return;
+    }
+
+    const redeem = await ctx.store.get(Redeem, toHex(redeemId));
+    if (redeem === undefined) {
+        ctx.log.warn(
+            "WARNING: execute_redeem call did not match any existing redeem requests! Skipping."
+        );
+        return;
+    }
+
+    const { blockHeight, confirmations } = await getBtcPaymentConfirmations(
+        ctx.store,
+        payment,
+        new Date(block.timestamp)
+    );
+
+    entityBuffer.pushEntity(
+        RedeemPayment.name,
+        new RedeemPayment({
+            id: redeem.id,
+            redeem,
+            btcTxId: payment.txId,
+            confirmations,
+            blockHeight,
+        })
+    );
+}
@@ -0,0 +1,62 @@
+import { decodeHex, SubstrateBlock } from "@subsquid/substrate-processor";
+import { VaultUndercollateralizationReport } from "../../model";
+import { CallItem, Ctx } from "../../processor";
+import { VaultRegistryReportUndercollateralizedVaultCall } from "../../types/calls";
+import { getVaultId } from "../_utils";
+import { address, encodeVaultId } from "../encoding";
+import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
+
+export async function storeUndercollateralizationReport(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    item: CallItem,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    if (!item.call.success) {
+        return;
+    }
+    const call = new VaultRegistryReportUndercollateralizedVaultCall(
+        ctx,
+        item.call
+    );
+    let c;
+    if (call.isV1020000) c = call.asV1020000;
+    else if (call.isV1021000) c = call.asV1021000;
+    else {
+        ctx.log.warn(
+            `UNKOWN CALL VERSION: VaultRegistry.report_undercollateralized_vault`
+        );
+        return;
+    }
+
+    const rawSigner = item.extrinsic.signature?.address;
+    if (rawSigner === undefined) {
+        ctx.log.info(`Received unsigned ${item.name} extrinsic; weird`);
+        return;
+    }
+    // signer is either a plain account id or a MultiAddress::Id
+    const signerHex: string =
+        typeof rawSigner === "string" ? rawSigner : rawSigner.value;
+
+    const vault = await getVaultId(ctx.store, c.vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for undercollateralization report with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                c.vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    entityBuffer.pushEntity(
+        VaultUndercollateralizationReport.name,
+        new VaultUndercollateralizationReport({
+            id: item.call.id,
+            vault,
+            reporter: address.parachain.encode(decodeHex(signerHex)),
+            height: await blockToHeight(ctx, block.height, item.name),
+            timestamp: new Date(block.timestamp),
+        })
+    );
+}
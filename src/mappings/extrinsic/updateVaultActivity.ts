@@ -1,40 +1,48 @@
-import {encodeAddress} from "@polkadot/util-crypto";
-import {SubstrateBlock} from "@subsquid/substrate-processor";
-import {Vault} from "../../model";
-import {CallItem, Ctx} from "../../processor";
-import {address} from "../encoding";
-import {blockToHeight} from "../utils/heights";
-
-// TODO
-// if we still need this - then refactor to use the new batchprocessor call processing
+import { decodeHex, SubstrateBlock } from "@subsquid/substrate-processor";
+import { Vault } from "../../model";
+import { CallItem, Ctx } from "../../processor";
+import { address } from "../encoding";
+import EntityBuffer from "../utils/entityBuffer";
+import { blockToHeight } from "../utils/heights";
 
 export async function updateVaultActivity(
     ctx: Ctx,
     block: SubstrateBlock,
-    item: CallItem
+    item: CallItem,
+    entityBuffer: EntityBuffer
 ): Promise<void> {
-    // const rawSigner = ctx.extrinsic.signature?.address;
-    // if (rawSigner === undefined) {
-    //     ctx.log.info(
-    //         `Received unsigned ${ctx.extrinsic.call.name} extrinsic; weird`
-    //     );
-    // }
-    // // @polkadot/util-crypto can actually handle hex strings
-    // // maybe @subsquid/ss58 can be removed entirely
-    // const signer = encodeAddress(rawSigner, address.interlay.prefix);
-    // const vault = await ctx.store.get(Vault, {
-    //     where: { accountId: signer },
-    // });
-    // if (vault === undefined) {
-    //     ctx.log.warn(
-    //         `Extrinsic ${ctx.extrinsic.call.name} called by non-vault registered account ${signer}`
-    //     );
-    //     return;
-    // }
-    // vault.lastActivity = await blockToHeight(
-    //     ctx,
-    //     ctx.block.height,
-    //     ctx.extrinsic.call.name
-    // );
-    // await ctx.store.save(vault);
+    if (!item.call.success) {
+        return;
+    }
+    const rawSigner = item.extrinsic.signature?.address;
+    if (rawSigner === undefined) {
+        ctx.log.info(`Received unsigned ${item.name} extrinsic; weird`);
+        return;
+    }
+    // signer is either a plain account id or a MultiAddress::Id
+    const signerHex: string =
+        typeof rawSigner === "string" ? rawSigner : rawSigner.value;
+    const signer = address.parachain.encode(decodeHex(signerHex));
+
+    // one account can run a vault for each collateral currency
+    const vaults = await ctx.store.find(Vault, {
+        where: { accountId: signer },
+    });
+    if (vaults.length === 0) {
+        ctx.log.debug(
+            `Extrinsic ${item.name} called by non-vault registered account ${signer}`
+        );
+        return;
+    }
+
+    const lastActivity = await blockToHeight(ctx, block.height, item.name);
+    for (const storedVault of vaults) {
+        const vault =
+            (entityBuffer.getBufferedEntityBy(
+                Vault.name,
+                storedVault.id
+            ) as Vault) || storedVault;
+        vault.lastActivity = lastActivity;
+        entityBuffer.pushEntity(Vault.name, vault);
+    }
 }
@@ -7,12 +7,16 @@ import {
     RedeemPeriod,
     RedeemStatus,
     RelayedBlock,
+    Replace,
+    ReplacePeriod,
+    ReplaceStatus,
 } from "../../model";
 import { Ctx } from "../../processor";
 import { blockToHeight } from "../utils/heights";
 import {
     getCurrentIssuePeriod,
     getCurrentRedeemPeriod,
+    getCurrentReplacePeriod,
 } from "../utils/requestPeriods";
 import { isRequestExpired } from "../_utils";
 
@@ -51,9 +55,17 @@ export async function findAndUpdateExpiredRequests(ctx: Ctx): Promise<void> {
         where: { status: RedeemStatus.Pending },
         relations: { period: true },
     });
+    const pendingReplaces = await ctx.store.find(Replace, {
+        where: { status: ReplaceStatus.Pending },
+        relations: { period: true },
+    });
 
     const currentIssuePeriod = await getCurrentIssuePeriod(ctx, block.header);
     const currentRedeemPeriod = await getCurrentRedeemPeriod(ctx, block.header);
+    const currentReplacePeriod = await getCurrentReplacePeriod(
+        ctx,
+        block.header
+    );
     if (currentIssuePeriod === undefined) {
         ctx.log.warn(
             `WARNING: Issue period is not set at block ${block.header.height}.`
@@ -68,8 +80,8 @@ export async function findAndUpdateExpiredRequests(ctx: Ctx): Promise<void> {
     }
 
     const checkRequestExpiration = async (
-        request: Issue | Redeem,
-        latestPeriod: IssuePeriod | RedeemPeriod
+        request: Issue | Redeem | Replace,
+        latestPeriod: IssuePeriod | RedeemPeriod | ReplacePeriod
     ) => {
         const updated = [];
         const period = Math.max(latestPeriod.value, request.period?.value || 0);
@@ -81,7 +93,10 @@ export async function findAndUpdateExpiredRequests(ctx: Ctx): Promise<void> {
             period
         );
         if (isExpired) {
-            request.status = "Expired" as IssueStatus | RedeemStatus;
+            request.status = "Expired" as
+                | IssueStatus
+                | RedeemStatus
+                | ReplaceStatus;
             updated.push(request);
         }
         return updated;
@@ -101,4 +116,11 @@ export async function findAndUpdateExpiredRequests(ctx: Ctx): Promise<void> {
         );
         await ctx.store.save(updated);
     }
+    for (const replaceRequest of pendingReplaces) {
+        const updated = await checkRequestExpiration(
+            replaceRequest,
+            currentReplacePeriod
+        );
+        await ctx.store.save(updated);
+    }
 }
@@ -0,0 +1,86 @@
+import { reverseEndiannessHex } from "@interlay/interbtc-api";
+import { toHex } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { Block, Transaction } from "bitcoinjs-lib";
+import { LessThanOrEqual } from "typeorm";
+import { RelayedBlock } from "../../model";
+import {
+    MerkleProof,
+    Transaction as TransactionV1024000,
+} from "../../types/v1024000";
+import { getMatchedTxHashes } from "../bitcoinUtils";
+
+export type BtcPayment = {
+    txId: string;
+    blockHash: string;
+    outputs: { value: bigint; script: Uint8Array }[];
+};
+
+// older runtimes submit the serialized merkle proof and transaction
+export function decodeRawBtcPayment(
+    merkleProof: Uint8Array,
+    rawTx: Uint8Array
+): BtcPayment {
+    const tx = Transaction.fromBuffer(Buffer.from(rawTx));
+    return {
+        txId: tx.getId(),
+        // the serialized merkle proof starts with the 80 byte block header
+        blockHash: Block.fromBuffer(
+            Buffer.from(merkleProof).subarray(0, 80)
+        ).getId(),
+        outputs: tx.outs.map((output) => ({
+            value: BigInt(output.value),
+            script: output.script,
+        })),
+    };
+}
+
+// newer runtimes submit them decoded, the transaction id is the matched leaf of the proof
+export function decodeBtcPayment(
+    merkleProof: MerkleProof,
+    transaction: TransactionV1024000
+): BtcPayment | undefined {
+    const [txHash] = getMatchedTxHashes(merkleProof);
+    if (txHash === undefined) {
+        return undefined;
+    }
+
+    return {
+        txId: reverseEndiannessHex(toHex(txHash)),
+        blockHash: reverseEndiannessHex(
+            toHex(merkleProof.blockHeader.hash.content)
+        ),
+        outputs: transaction.outputs.map((output) => ({
+            value: output.value,
+            script: output.script.bytes,
+        })),
+    };
+}
+
+/**
+ * Looks up the relayed block including the payment and counts its
+ * confirmations against the best block relayed at timestamp.
+ */
+export async function getBtcPaymentConfirmations(
+    store: Store,
+    payment: BtcPayment,
+    timestamp: Date
+): Promise<{ blockHeight?: number; confirmations: number }> {
+    const [paymentBlock, bestBlock] = await Promise.all([
+        store.get(RelayedBlock, {
+            where: { blockHash: payment.blockHash },
+        }),
+        store.get(RelayedBlock, {
+            where: { timestamp: LessThanOrEqual(timestamp) },
+            order: { backingHeight: "DESC" },
+        }),
+    ]);
+
+    if (paymentBlock === undefined || bestBlock === undefined) {
+        return { confirmations: 0 };
+    }
+    return {
+        blockHeight: paymentBlock.backingHeight,
+        confirmations: bestBlock.backingHeight - paymentBlock.backingHeight + 1,
+    };
+}
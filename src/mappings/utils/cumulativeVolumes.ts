@@ -7,17 +7,19 @@ import {
     CumulativeDexTradingVolume,
     CumulativeDexTradingVolumePerAccount,
     CumulativeDexTradingVolumePerPool,
+    CumulativeNominatedCollateral,
     CumulativeVolume,
     CumulativeVolumePerCurrencyPair,
     Currency,
     PooledAmount,
     PooledToken,
     PoolType,
+    Vault,
     VolumeType
 } from "../../model";
 import { convertAmountToHuman } from "../_utils";
 import EntityBuffer from "./entityBuffer";
-import { inferGeneralPoolId } from "./pools";
+import { inferGeneralPoolId } from "./currencyOrder";
 import { CurrencyId } from "../../types/v1021000";
 import { cloneTimestampedEntity } from "./cloneHelpers";
 
@@ -213,6 +215,71 @@ export async function updateCumulativeVolumesForCurrencyPair(
     }
 }
 
+export async function updateCumulativeNominatedCollateral(
+    store: Store,
+    vault: Vault,
+    amount: bigint,
+    timestamp: Date,
+    entityBuffer: EntityBuffer
+): Promise<CumulativeNominatedCollateral> {
+    const id = `${vault.id}-${timestamp.getTime().toString()}`;
+
+    // find by id if it exists in either entity buffer or db
+    const existingValueInBlock =
+        (entityBuffer.getBufferedEntityBy(
+            CumulativeNominatedCollateral.name,
+            id
+        ) as CumulativeNominatedCollateral) ||
+        (await store.get(CumulativeNominatedCollateral, id));
+
+    let total: bigint;
+    if (existingValueInBlock !== undefined) {
+        // new event in same block, update total
+        total = existingValueInBlock.amount + amount;
+    } else {
+        // new event in new block, carry over the last total from buffer, otherwise from DB
+        const latestInBuffer = (
+            entityBuffer.getBufferedEntities(
+                CumulativeNominatedCollateral.name
+            ) as CumulativeNominatedCollateral[]
+        )
+            .filter(
+                (entity) =>
+                    entity.vault.id === vault.id &&
+                    entity.tillTimestamp.getTime() <= timestamp.getTime()
+            )
+            .reduce<CumulativeNominatedCollateral | undefined>(
+                (prev, current) =>
+                    prev === undefined ||
+                    current.tillTimestamp.getTime() > prev.tillTimestamp.getTime()
+                        ? current
+                        : prev,
+                undefined
+            );
+        const previousTotal =
+            latestInBuffer?.amount ??
+            (
+                await store.get(CumulativeNominatedCollateral, {
+                    where: {
+                        vault: { id: vault.id },
+                        tillTimestamp: LessThanOrEqual(timestamp),
+                    },
+                    order: { tillTimestamp: "DESC" },
+                })
+            )?.amount ??
+            0n;
+        total = previousTotal + amount;
+    }
+
+    return new CumulativeNominatedCollateral({
+        id,
+        vault,
+        tillTimestamp: timestamp,
+        amount: total,
+        amountHuman: await convertAmountToHuman(vault.collateralToken, total),
+    });
+}
+
 export type SwapDetailsAmount = {
     currency: PooledToken,
     atomicAmount: bigint,
@@ -0,0 +1,115 @@
+import { Currency, Token } from "../../model";
+import { currencyToString } from "../encoding";
+
+// Replicated order from parachain code. 
+// See https://github.com/interlay/interbtc/blob/4cf80ce563825d28d637067a8a63c1d9825be1f4/primitives/src/lib.rs#L492-L498
+const currencyTypeToIndexMap = new Map([
+    ["NativeToken", 0],
+    ["ForeignAsset", 1],
+    ["LendToken", 2],
+    ["LpToken", 3],
+    ["StableLpToken", 4]
+]);
+
+// Replicated order from parachain code. 
+// See also https://github.com/interlay/interbtc/blob/d48fee47e153291edb92525221545c2f4fa58501/primitives/src/lib.rs#L469-L476
+const nativeTokenToIndexMap: Map<Token, number> = new Map([
+    [Token.DOT, 0],
+    [Token.IBTC, 1],
+    [Token.INTR, 2],
+    [Token.KSM, 10],
+    [Token.KBTC, 11],
+    [Token.KINT, 12]
+]);
+
+function compareCurrencyType(currency0: Currency, currency1: Currency): number {
+    if (currency0.isTypeOf === currency1.isTypeOf) {
+        return 0;
+    }
+
+    const typeIndex0 = currencyTypeToIndexMap.get(currency0.isTypeOf);
+    const typeIndex1 = currencyTypeToIndexMap.get(currency1.isTypeOf);
+
+    if (typeIndex0 === undefined) {
+        throw Error(`Unable to find index for given currency type [${currency0.isTypeOf}]`);
+    }
+    if (typeIndex1 === undefined) {
+        throw Error(`Unable to find index for given currency type [${currency1.isTypeOf}]`);
+    }
+
+    return typeIndex0 - typeIndex1;
+}
+
+function currencyToIndex(currency: Currency): number {
+    switch(currency.isTypeOf) {
+        case "NativeToken":
+            const tokenIndex = nativeTokenToIndexMap.get(currency.token);
+            if (tokenIndex === undefined) {
+                throw Error(`currencyToIndex: Unknown or unhandled native token [${currency.token.toString()}]`);
+            }
+            return tokenIndex;
+        case "ForeignAsset":
+            return currency.asset;
+        case "LendToken":
+            return currency.lendTokenId;
+        case "StableLpToken":
+            return currency.poolId;
+        default:
+            throw Error(`currencyToIndex:  Unknown or unsupported currency type [${currency.isTypeOf}]`);
+    }
+}
+
+/**
+ * For sorting currencies.
+ * @param currency0 first currency
+ * @param currency1 second currency
+ * @returns A negative number if currency0 should be listed before currency1, 
+ *          a positive number if currency1 should be listed before currency0, 
+ *          otherwise returns 0
+ */
+export function compareCurrencies(currency0: Currency, currency1: Currency): number {
+    const typeCompare = compareCurrencyType(currency0, currency1);
+    if (typeCompare != 0) {
+        return typeCompare;
+    }
+
+    const index0 = currencyToIndex(currency0);
+    const index1 = currencyToIndex(currency1);
+    return index0 - index1;
+}
+
+/**
+ * Order the given currencies in a consistent manner according to their type and ids / token names.
+ * 
+ * Replicates the parachain's ordering as defined in these two spots: 
+ * https://github.com/interlay/interbtc/blob/4cf80ce563825d28d637067a8a63c1d9825be1f4/primitives/src/lib.rs#L492-L498
+ * and
+ * https://github.com/interlay/interbtc/blob/d48fee47e153291edb92525221545c2f4fa58501/primitives/src/lib.rs#L469-L476
+ * 
+ * @param currency0 One currency
+ * @param currency1 The other currency
+ * @returns A tuple of the two currencies in the same order as the parachain would put them in. 
+ */
+export function orderCurrencies(currency0: Currency, currency1: Currency): [Currency, Currency] {
+    if (compareCurrencies(currency0, currency1) > 0) {
+        return [currency1, currency0];
+    } else {
+        return [currency0, currency1];
+    }
+}
+
+/**
+ * Calculate the standard pool's id given 2 currencies.
+ * This method will sort the currencies and return their ids/tickers in a specific order.
+ * 
+ * @param currency0 One currency
+ * @param currency1 The other currency
+ */
+export function inferGeneralPoolId(currency0: Currency, currency1: Currency): string {
+    const [first, second] = orderCurrencies(currency0, currency1);
+
+    const firstCurrencyString: string = currencyToString(first);
+    const secondCurrencyString: string = currencyToString(second);
+    
+    return `(${firstCurrencyString},${secondCurrencyString})`;
+}
@@ -0,0 +1,21 @@
+import { timeWeightedAverage } from "./loanMarketStats";
+
+describe("loanMarketStats", () => {
+    it("should start over at the latest value without a previous average", () => {
+        expect(timeWeightedAverage(undefined, 0, undefined, 0, 5)).toEqual(5);
+        expect(timeWeightedAverage(null, 0, null, 0, 5)).toEqual(5);
+    });
+
+    it("should weight values by how long they were held", () => {
+        // 2 for an hour, then 8 for three hours
+        const afterFirstHour = timeWeightedAverage(2, 0, 2, 3_600_000, 8);
+        const average = timeWeightedAverage(afterFirstHour, 3_600_000, 8, 10_800_000, 1);
+
+        expect(afterFirstHour).toEqual(2);
+        expect(average).toEqual(6.5);
+    });
+
+    it("should keep the average if no time passed", () => {
+        expect(timeWeightedAverage(3, 3_600_000, 9, 0, 1)).toEqual(3);
+    });
+});
@@ -0,0 +1,229 @@
+import {
+    Height,
+    InterestAccrual,
+    LoanMarket,
+    LoanMarketDailyStats,
+    LoanPosition,
+} from "../../model";
+import { Ctx } from "../../processor";
+import { LessThan } from "typeorm";
+import EntityBuffer from "./entityBuffer";
+
+/**
+ * Changes of the active borrower and supplier counts, from positions
+ * whose borrow or lend token balance crossed zero.
+ */
+export type ActiveAccountDeltas = {
+    borrowers?: number;
+    suppliers?: number;
+};
+
+export type AccrualTotalsBtc = {
+    totalBorrowsBtc: number;
+    totalReservesBtc: number;
+};
+
+/**
+ * Start of the UTC day of the timestamp.
+ */
+export function utcDay(timestamp: Date): Date {
+    const date = new Date(timestamp.getTime());
+    date.setUTCHours(0, 0, 0, 0);
+    return date;
+}
+
+/**
+ * Extends a time-weighted average covering coveredMs by a value held for heldMs.
+ * Starts over at latestValue when there is nothing to weigh yet.
+ */
+export function timeWeightedAverage(
+    average: number | null | undefined,
+    coveredMs: number,
+    heldValue: number | null | undefined,
+    heldMs: number,
+    latestValue: number
+): number {
+    if (
+        average === null ||
+        average === undefined ||
+        heldValue === null ||
+        heldValue === undefined ||
+        coveredMs + heldMs === 0
+    ) {
+        return latestValue;
+    }
+    return (average * coveredMs + heldValue * heldMs) / (coveredMs + heldMs);
+}
+
+// counts of the market's open positions, for markets without any stats yet
+async function countActiveAccounts(
+    ctx: Ctx,
+    market: LoanMarket,
+    entityBuffer: EntityBuffer
+): Promise<{ activeBorrowers: number; activeSuppliers: number }> {
+    // buffered positions are more recent than stored ones
+    const positions = new Map<string, LoanPosition>();
+    for (const stored of await ctx.store.find(LoanPosition, {
+        where: { market: { id: market.id } },
+    })) {
+        positions.set(stored.id, stored);
+    }
+    for (const buffered of entityBuffer.getBufferedEntities(
+        LoanPosition.name
+    ) as LoanPosition[]) {
+        if (buffered.market.id === market.id) {
+            positions.set(buffered.id, buffered);
+        }
+    }
+    return {
+        activeBorrowers: [...positions.values()].filter(
+            (position) => position.borrowed > 0n
+        ).length,
+        activeSuppliers: [...positions.values()].filter(
+            (position) => position.lendTokens > 0n
+        ).length,
+    };
+}
+
+// latest stats of the market before the day, from the buffer or db
+async function getPreviousDailyStats(
+    ctx: Ctx,
+    market: LoanMarket,
+    date: Date,
+    entityBuffer: EntityBuffer
+): Promise<LoanMarketDailyStats | undefined> {
+    const latestInBuffer = (
+        entityBuffer.getBufferedEntities(
+            LoanMarketDailyStats.name
+        ) as LoanMarketDailyStats[]
+    )
+        .filter(
+            (entity) =>
+                entity.market.id === market.id &&
+                entity.date.getTime() < date.getTime()
+        )
+        .reduce<LoanMarketDailyStats | undefined>(
+            (prev, current) =>
+                prev === undefined ||
+                current.date.getTime() > prev.date.getTime()
+                    ? current
+                    : prev,
+            undefined
+        );
+
+    return (
+        latestInBuffer ||
+        (await ctx.store.get(LoanMarketDailyStats, {
+            where: { market: { id: market.id }, date: LessThan(date) },
+            order: { date: "DESC" },
+        }))
+    );
+}
+
+/**
+ * Updates the day's stats of the market: active borrower and supplier counts
+ * by the given deltas, and rates and totals if an interest accrual is given.
+ */
+export async function updateLoanMarketDailyStats(
+    ctx: Ctx,
+    market: LoanMarket,
+    height: Height,
+    timestamp: Date,
+    entityBuffer: EntityBuffer,
+    activeAccountDeltas: ActiveAccountDeltas,
+    accrual?: InterestAccrual,
+    accrualTotalsBtc?: AccrualTotalsBtc
+): Promise<void> {
+    const date = utcDay(timestamp);
+    const id = `${market.id}-${date.toISOString().slice(0, 10)}`;
+    let stats =
+        (entityBuffer.getBufferedEntityBy(
+            LoanMarketDailyStats.name,
+            id
+        ) as LoanMarketDailyStats) ||
+        (await ctx.store.get(LoanMarketDailyStats, id));
+    if (stats === undefined) {
+        // first update of the day, carry over the counts
+        const previous = await getPreviousDailyStats(
+            ctx,
+            market,
+            date,
+            entityBuffer
+        );
+        stats = new LoanMarketDailyStats({
+            id,
+            market,
+            currencySymbol: market.currencySymbol,
+            date,
+            accrualCount: 0,
+        });
+        if (previous === undefined) {
+            // counted positions already include the current change
+            Object.assign(
+                stats,
+                await countActiveAccounts(ctx, market, entityBuffer)
+            );
+        } else {
+            stats.activeBorrowers =
+                previous.activeBorrowers + (activeAccountDeltas.borrowers || 0);
+            stats.activeSuppliers =
+                previous.activeSuppliers + (activeAccountDeltas.suppliers || 0);
+        }
+    } else {
+        stats.activeBorrowers += activeAccountDeltas.borrowers || 0;
+        stats.activeSuppliers += activeAccountDeltas.suppliers || 0;
+    }
+
+    if (accrual !== undefined) {
+        const coveredMs = stats.lastAccrualTimestamp
+            ? stats.lastAccrualTimestamp.getTime() -
+              stats.firstAccrualTimestamp!.getTime()
+            : 0;
+        const heldMs = stats.lastAccrualTimestamp
+            ? accrual.timestamp.getTime() - stats.lastAccrualTimestamp.getTime()
+            : 0;
+        stats.accrualCount += 1;
+        stats.firstAccrualTimestamp =
+            stats.firstAccrualTimestamp ?? accrual.timestamp;
+        stats.lastAccrualTimestamp = accrual.timestamp;
+        stats.utilizationOpen =
+            stats.utilizationOpen ?? accrual.utilizationRatio;
+        stats.utilizationAvg = timeWeightedAverage(
+            stats.utilizationAvg,
+            coveredMs,
+            stats.utilizationClose,
+            heldMs,
+            accrual.utilizationRatio
+        );
+        stats.utilizationClose = accrual.utilizationRatio;
+        // the pallet's rates are yearly, as in the interbtc-api
+        stats.borrowAprAvg = timeWeightedAverage(
+            stats.borrowAprAvg,
+            coveredMs,
+            stats.borrowAprClose,
+            heldMs,
+            accrual.borrowRatePct!
+        );
+        stats.borrowAprClose = accrual.borrowRatePct;
+        stats.supplyAprAvg = timeWeightedAverage(
+            stats.supplyAprAvg,
+            coveredMs,
+            stats.supplyAprClose,
+            heldMs,
+            accrual.supplyRatePct!
+        );
+        stats.supplyAprClose = accrual.supplyRatePct;
+        stats.totalBorrows = accrual.totalBorrows;
+        stats.totalBorrowsNative = accrual.totalBorrowsNative;
+        stats.totalBorrowsUsdt = accrual.totalBorrowsUsdt;
+        stats.totalReserves = accrual.totalReserves;
+        stats.totalReservesNative = accrual.totalReservesNative;
+        stats.totalReservesUsdt = accrual.totalReservesUsdt;
+        stats.totalBorrowsBtc = accrualTotalsBtc?.totalBorrowsBtc;
+        stats.totalReservesBtc = accrualTotalsBtc?.totalReservesBtc;
+    }
+    stats.height = height;
+    stats.timestamp = timestamp;
+
+    entityBuffer.pushEntity(LoanMarketDailyStats.name, stats);
+}
@@ -0,0 +1,392 @@
+import { CurrencyExt, FIXEDI128_SCALING_FACTOR, newMonetaryAmount } from "@interlay/interbtc-api";
+import { Bitcoin, ExchangeRate } from "@interlay/monetary-js";
+import { BigDecimal } from "@subsquid/big-decimal";
+import { SubstrateBlock } from "@subsquid/substrate-processor";
+import {
+    Currency,
+    Height,
+    InterestAccrual,
+    LoanHealth,
+    LoanMarket,
+    LoanPosition,
+} from "../../model";
+import { Ctx } from "../../processor";
+import { LoansExchangeRateStorage } from "../../types/storage";
+import { currencyId, currencyToString } from "../encoding";
+import { getExchangeRate } from "../_utils";
+import EntityBuffer from "./entityBuffer";
+import { blockToHeight } from "./heights";
+import { updateLoanMarketDailyStats } from "./loanMarketStats";
+import { lendTokenDetails } from "./markets";
+
+export type LoanPositionDeltas = {
+    supplied?: bigint;
+    borrowed?: bigint;
+    collateral?: bigint;
+    lendTokens?: bigint;
+};
+
+/**
+ * Prices and interest accruals looked up while valuing loan positions, shared
+ * when the health of many accounts is recomputed at the same time.
+ */
+export type LoanValuationCache = {
+    btcExchangeRates: Map<string, ExchangeRate<Bitcoin, CurrencyExt>>;
+    interestAccruals: Map<string, InterestAccrual | undefined>;
+};
+
+export function newLoanValuationCache(): LoanValuationCache {
+    return { btcExchangeRates: new Map(), interestAccruals: new Map() };
+}
+
+const FIXEDU128_ONE = 10n ** BigInt(FIXEDI128_SCALING_FACTOR);
+
+/**
+ * Resolves lend tokens to the underlying currency of their market,
+ * other currencies are returned unchanged.
+ */
+export async function toUnderlyingCurrency(
+    ctx: Ctx,
+    currency: Currency
+): Promise<Currency> {
+    return currency.isTypeOf === "LendToken"
+        ? lendTokenDetails(ctx, currency.lendTokenId)
+        : currency;
+}
+
+/**
+ * Latest interest accrual of the market, from the buffer or db.
+ */
+export async function getLatestInterestAccrual(
+    ctx: Ctx,
+    market: LoanMarket,
+    entityBuffer: EntityBuffer
+): Promise<InterestAccrual | undefined> {
+    const latestInBuffer = (
+        entityBuffer.getBufferedEntities(
+            InterestAccrual.name
+        ) as InterestAccrual[]
+    )
+        .filter((entity) => entity.currencySymbol === market.currencySymbol)
+        .reduce<InterestAccrual | undefined>(
+            (prev, current) =>
+                prev === undefined ||
+                current.timestamp.getTime() >= prev.timestamp.getTime()
+                    ? current
+                    : prev,
+            undefined
+        );
+
+    return (
+        latestInBuffer ||
+        (await ctx.store.get(InterestAccrual, {
+            where: { currencySymbol: market.currencySymbol },
+            order: { timestamp: "DESC" },
+        }))
+    );
+}
+
+/**
+ * Exchange rate of the market's lend tokens to underlying as of the block: from its latest
+ * interest accrual, or read from chain state if none has been indexed yet.
+ * Returns undefined (and logs) if neither is known.
+ */
+export async function getLendTokenExchangeRate(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    underlyingCurrency: Currency,
+    entityBuffer: EntityBuffer
+): Promise<bigint | undefined> {
+    const marketId = `loanMarket_${currencyToString(underlyingCurrency)}`;
+    const market = await ctx.store.get(LoanMarket, marketId);
+    if (market === undefined) {
+        ctx.log.warn(
+            `WARNING: unable to get lend token exchange rate, no LoanMarket ${marketId} (at parachain absolute height ${block.height})`
+        );
+        return undefined;
+    }
+    const latestAccrual = await getLatestInterestAccrual(ctx, market, entityBuffer);
+    if (latestAccrual !== undefined) {
+        return latestAccrual.exchangeRate;
+    }
+
+    const rawExchangeRateStorage = new LoansExchangeRateStorage(ctx, block);
+    const exchangeRate = rawExchangeRateStorage.isV1021000
+        ? await rawExchangeRateStorage.getAsV1021000(currencyId.decode(underlyingCurrency))
+        : 0n;
+    if (exchangeRate === 0n) {
+        ctx.log.warn(
+            `WARNING: unable to get lend token exchange rate of ${marketId} from Loans.ExchangeRate storage (at parachain absolute height ${block.height})`
+        );
+        return undefined;
+    }
+    return exchangeRate;
+}
+
+/**
+ * Converts lend tokens to underlying at a fixed point exchange rate.
+ */
+export function lendTokensToUnderlying(
+    lendTokens: bigint,
+    exchangeRate: bigint
+): bigint {
+    return (lendTokens * exchangeRate) / FIXEDU128_ONE;
+}
+
+/**
+ * Scales a borrow principal taken at snapshotIndex to the debt owed at currentIndex.
+ */
+export function scaleBorrowedAmount(
+    principal: bigint,
+    snapshotIndex: bigint | null | undefined,
+    currentIndex: bigint | undefined
+): bigint {
+    if (!snapshotIndex || currentIndex === undefined) {
+        return principal;
+    }
+    return (principal * currentIndex) / snapshotIndex;
+}
+
+export async function updateLoanPosition(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    accountId: string,
+    underlyingCurrency: Currency,
+    deltas: LoanPositionDeltas,
+    entityBuffer: EntityBuffer,
+    eventName: string
+): Promise<void> {
+    const marketId = `loanMarket_${currencyToString(underlyingCurrency)}`;
+    const market = await ctx.store.get(LoanMarket, marketId);
+    if (market === undefined) {
+        ctx.log.warn(
+            `WARNING: ${eventName} event did not match any existing LoanMarkets (${marketId})! Skipping position update.`
+        );
+        return;
+    }
+
+    const id = `${accountId}-${market.id}`;
+    const position =
+        (entityBuffer.getBufferedEntityBy(
+            LoanPosition.name,
+            id
+        ) as LoanPosition) ||
+        (await ctx.store.get(LoanPosition, id)) ||
+        new LoanPosition({
+            id,
+            accountId,
+            supplied: 0n,
+            borrowed: 0n,
+            collateral: 0n,
+            lendTokens: 0n,
+        });
+
+    position.market = market;
+    const wasBorrowing = position.borrowed > 0n;
+    const wasSupplying = position.lendTokens > 0n;
+    const latestAccrual =
+        deltas.borrowed !== undefined || deltas.supplied !== undefined
+            ? await getLatestInterestAccrual(ctx, market, entityBuffer)
+            : undefined;
+    if (deltas.supplied !== undefined) {
+        position.supplied += deltas.supplied;
+        // supplying mints and redeeming burns lend tokens at the current exchange rate
+        if (latestAccrual === undefined) {
+            ctx.log.warn(
+                `WARNING: no exchange rate known for ${market.id} at ${eventName} (at parachain absolute height ${block.height}), lend tokens of ${accountId} not updated`
+            );
+        } else {
+            position.lendTokens +=
+                (deltas.supplied * FIXEDU128_ONE) / latestAccrual.exchangeRate;
+        }
+    }
+    if (deltas.borrowed !== undefined) {
+        // like the pallet's borrow snapshot: accrue interest up to now, then apply the change
+        const borrowIndex = latestAccrual?.borrowIndex;
+        const borrowed =
+            scaleBorrowedAmount(
+                position.borrowed,
+                position.borrowIndex,
+                borrowIndex
+            ) + deltas.borrowed;
+        // rounding may leave a fully repaid borrow slightly negative
+        position.borrowed = borrowed > 0n ? borrowed : 0n;
+        position.borrowIndex = borrowIndex ?? position.borrowIndex;
+    }
+    position.lendTokens += deltas.lendTokens || 0n;
+    position.collateral += deltas.collateral || 0n;
+    position.height = await blockToHeight(ctx, block.height, eventName);
+    position.timestamp = new Date(block.timestamp);
+
+    entityBuffer.pushEntity(LoanPosition.name, position);
+
+    const health = await updateLoanHealth(
+        ctx,
+        accountId,
+        position.height,
+        position.timestamp,
+        entityBuffer
+    );
+    if (health !== undefined) {
+        entityBuffer.pushEntity(LoanHealth.name, health);
+    }
+
+    // active accounts only change when a balance crosses zero
+    const isBorrowing = position.borrowed > 0n;
+    const isSupplying = position.lendTokens > 0n;
+    await updateLoanMarketDailyStats(
+        ctx,
+        market,
+        position.height,
+        position.timestamp,
+        entityBuffer,
+        {
+            borrowers: Number(isBorrowing) - Number(wasBorrowing),
+            suppliers: Number(isSupplying) - Number(wasSupplying),
+        }
+    );
+}
+
+async function getCachedInterestAccrual(
+    ctx: Ctx,
+    market: LoanMarket,
+    entityBuffer: EntityBuffer,
+    cache: LoanValuationCache
+): Promise<InterestAccrual | undefined> {
+    if (!cache.interestAccruals.has(market.id)) {
+        cache.interestAccruals.set(
+            market.id,
+            await getLatestInterestAccrual(ctx, market, entityBuffer)
+        );
+    }
+    return cache.interestAccruals.get(market.id);
+}
+
+async function valueInBtc(
+    ctx: Ctx,
+    currency: Currency,
+    amount: bigint,
+    timestamp: Date,
+    cache: LoanValuationCache
+): Promise<BigDecimal> {
+    const key = currencyToString(currency);
+    let rate = cache.btcExchangeRates.get(key);
+    if (rate === undefined) {
+        ({ btcExchangeRate: rate } = await getExchangeRate(
+            ctx,
+            timestamp.getTime(),
+            currency,
+            0
+        ));
+        cache.btcExchangeRates.set(key, rate);
+    }
+    const value = rate.toBase(newMonetaryAmount(amount.toString(), rate.counter));
+    return BigDecimal(value.toBig().toString());
+}
+
+/**
+ * Values all positions of the account in BTC at the oracle prices valid at timestamp.
+ * Stored positions are loaded unless passed in, buffered ones take precedence.
+ * Returns undefined if the account has neither collateral nor borrows,
+ * or (and logs) if a price is missing.
+ */
+export async function updateLoanHealth(
+    ctx: Ctx,
+    accountId: string,
+    height: Height,
+    timestamp: Date,
+    entityBuffer: EntityBuffer,
+    storedPositions?: LoanPosition[],
+    cache: LoanValuationCache = newLoanValuationCache()
+): Promise<LoanHealth | undefined> {
+    // buffered positions are more recent than stored ones
+    const positions = new Map<string, LoanPosition>();
+    for (const stored of storedPositions ||
+        (await ctx.store.find(LoanPosition, {
+            where: { accountId },
+            relations: { market: true },
+        }))) {
+        positions.set(stored.id, stored);
+    }
+    for (const buffered of entityBuffer.getBufferedEntities(
+        LoanPosition.name
+    ) as LoanPosition[]) {
+        if (buffered.accountId === accountId) {
+            positions.set(buffered.id, buffered);
+        }
+    }
+    const openPositions = [...positions.values()].filter(
+        (position) => position.collateral > 0n || position.borrowed > 0n
+    );
+    if (openPositions.length === 0) {
+        return undefined;
+    }
+
+    let liquidationThresholdBtc = BigDecimal(0);
+    let borrowLimitBtc = BigDecimal(0);
+    let borrowedBtc = BigDecimal(0);
+    try {
+        for (const position of openPositions) {
+            const market = position.market;
+            const accrual = await getCachedInterestAccrual(
+                ctx,
+                market,
+                entityBuffer,
+                cache
+            );
+            if (position.collateral > 0n && accrual !== undefined) {
+                const collateralBtc = await valueInBtc(
+                    ctx,
+                    market.token,
+                    lendTokensToUnderlying(
+                        position.collateral,
+                        accrual.exchangeRate
+                    ),
+                    timestamp,
+                    cache
+                );
+                liquidationThresholdBtc = liquidationThresholdBtc.add(
+                    collateralBtc.mul(market.liquidationThreshold)
+                );
+                borrowLimitBtc = borrowLimitBtc.add(
+                    collateralBtc.mul(market.collateralFactor)
+                );
+            }
+            if (position.borrowed > 0n) {
+                borrowedBtc = borrowedBtc.add(
+                    await valueInBtc(
+                        ctx,
+                        market.token,
+                        scaleBorrowedAmount(
+                            position.borrowed,
+                            position.borrowIndex,
+                            accrual?.borrowIndex
+                        ),
+                        timestamp,
+                        cache
+                    )
+                );
+            }
+        }
+    } catch (error) {
+        ctx.log.warn(
+            `WARNING: unable to value loan positions of ${accountId} at ${timestamp.toISOString()}: ${
+                (error as Error).message
+            }`
+        );
+        return undefined;
+    }
+
+    return new LoanHealth({
+        id: `${accountId}-${timestamp.getTime().toString()}`,
+        accountId,
+        liquidationThresholdBtc,
+        borrowLimitBtc,
+        borrowedBtc,
+        healthFactor: borrowedBtc.gt(0)
+            ? liquidationThresholdBtc.div(borrowedBtc)
+            : null,
+        height,
+        timestamp,
+    });
+}
@@ -1,4 +1,4 @@
-import {getNativeCurrency} from "./nativeCurrency";
+import {getNativeCurrency, getWrappedCurrency} from "./nativeCurrency";
 import { Token } from "../../model";
 
 describe("getNativeCurrency", () => {
@@ -30,3 +30,21 @@ describe("getNativeCurrency", () => {
         expect(actualNativeCurrency).not.toBe(Token.KINT);
     });
 });
+
+describe("getWrappedCurrency", () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it("should return kbtc on kintsugi", () => {
+        process.env.SS58_CODEC = "kintsugi";
+        expect(getWrappedCurrency()).toBe(Token.KBTC);
+    });
+
+    it("should return ibtc on interlay", () => {
+        process.env.SS58_CODEC = "interlay";
+        expect(getWrappedCurrency()).toBe(Token.IBTC);
+    });
+});
\ No newline at end of file
@@ -5,4 +5,11 @@ export function getNativeCurrency(): Token.KINT | Token.INTR {
         return Token.KINT;
     }
     return Token.INTR;
+}
+
+export function getWrappedCurrency(): Token.KBTC | Token.IBTC {
+    if (getNativeCurrency() === Token.KINT) {
+        return Token.KBTC;
+    }
+    return Token.IBTC;
 }
\ No newline at end of file
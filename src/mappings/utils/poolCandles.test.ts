@@ -0,0 +1,29 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { NativeToken, PooledAmount, Swap, Token } from "../../model";
+import { swapPairPrice } from "./poolCandles";
+
+describe("poolCandles", () => {
+    const ksm = new NativeToken({ token: Token.KSM });
+    const kbtc = new NativeToken({ token: Token.KBTC });
+    const amount = (token: NativeToken, amountHuman: number) => new PooledAmount({
+        token,
+        amount: BigInt(amountHuman * 100),
+        amountHuman: BigDecimal(amountHuman),
+    });
+
+    it("should price swaps in either direction in the same pair order", () => {
+        const ksmToKbtc = swapPairPrice(new Swap({ from: amount(ksm, 2000), to: amount(kbtc, 1) }));
+        const kbtcToKsm = swapPairPrice(new Swap({ from: amount(kbtc, 1), to: amount(ksm, 2000) }));
+
+        expect(kbtcToKsm.base.token).toEqual(ksmToKbtc.base.token);
+        expect(kbtcToKsm.quote.token).toEqual(ksmToKbtc.quote.token);
+        expect(kbtcToKsm.price).toEqual(ksmToKbtc.price);
+        expect(ksmToKbtc.price).toEqual(ksmToKbtc.quote.amountHuman!.div(ksmToKbtc.base.amountHuman!));
+    });
+
+    it("should not price swaps with a zero amount", () => {
+        const { price } = swapPairPrice(new Swap({ from: amount(ksm, 0), to: amount(kbtc, 1) }));
+
+        expect(price).toBeUndefined();
+    });
+});
@@ -0,0 +1,80 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { PoolCandle, PriceCandleInterval, Swap } from "../../model";
+import { Ctx } from "../../processor";
+import EntityBuffer from "./entityBuffer";
+import { compareCurrencies, inferGeneralPoolId } from "./currencyOrder";
+import { getSwapVolumeUsdt } from "./pools";
+import { candleStartTime } from "./priceCandles";
+
+/**
+ * Quote per base price of a swap, in human units, with the two currencies ordered as for standard pool ids.
+ */
+export function swapPairPrice(swap: Swap) {
+    const [base, quote] = compareCurrencies(swap.from.token, swap.to.token) < 0
+        ? [swap.from, swap.to]
+        : [swap.to, swap.from];
+    const price = base.amount > 0n && quote.amount > 0n
+        ? quote.amountHuman!.div(base.amountHuman!)
+        : undefined;
+    return { base, quote, price };
+}
+
+/**
+ * Adds a swap to the hourly and daily candles of its pool and currency pair.
+ */
+export async function updatePoolCandles(
+    ctx: Ctx,
+    swap: Swap,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    const { base, quote, price } = swapPairPrice(swap);
+    if (price === undefined) {
+        ctx.log.warn(`WARNING: zero amount in ${swap.id}, skipping pool candles`);
+        return;
+    }
+    const pair = inferGeneralPoolId(base.token, quote.token);
+
+    const volumeUsdt = getSwapVolumeUsdt(swap);
+
+    for (const interval of [PriceCandleInterval.Hour, PriceCandleInterval.Day]) {
+        const startTime = candleStartTime(swap.timestamp, interval);
+        const id = `${swap.poolId}-${pair}-${interval}-${startTime.getTime()}`;
+        const candle: PoolCandle =
+            (entityBuffer.getBufferedEntityBy(PoolCandle.name, id) as PoolCandle) ||
+            (await ctx.store.get(PoolCandle, id)) ||
+            new PoolCandle({
+                id,
+                poolType: swap.poolType,
+                poolId: swap.poolId,
+                pair,
+                baseToken: base.token,
+                quoteToken: quote.token,
+                interval,
+                startTime,
+                open: price,
+                high: price,
+                low: price,
+                baseVolume: 0n,
+                baseVolumeHuman: BigDecimal(0),
+                quoteVolume: 0n,
+                quoteVolumeHuman: BigDecimal(0),
+                tradeCount: 0,
+            });
+
+        candle.high = candle.high.gt(price) ? candle.high : price;
+        candle.low = candle.low.lt(price) ? candle.low : price;
+        candle.close = price;
+        candle.baseVolume += base.amount;
+        candle.baseVolumeHuman = candle.baseVolumeHuman.add(base.amountHuman!);
+        candle.quoteVolume += quote.amount;
+        candle.quoteVolumeHuman = candle.quoteVolumeHuman.add(quote.amountHuman!);
+        if (volumeUsdt !== undefined) {
+            candle.volumeUsdt = (candle.volumeUsdt ?? 0) + volumeUsdt;
+        }
+        candle.tradeCount += 1;
+        candle.closeTimestamp = swap.timestamp;
+        candle.height = swap.height;
+
+        entityBuffer.pushEntity(PoolCandle.name, candle);
+    }
+}
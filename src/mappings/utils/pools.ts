@@ -2,13 +2,30 @@ import { BigDecimal } from "@subsquid/big-decimal";
 import { SubstrateBlock } from "@subsquid/substrate-processor";
 import { Big, RoundingMode } from "big.js";
 import { LessThanOrEqual } from "typeorm";
-import { Currency, DexStableFees, Height, PoolType, Swap, Token } from "../../model";
+import {
+    Currency,
+    DexStableFees,
+    fromJsonPooledToken,
+    Height,
+    LpPosition,
+    PooledAmount,
+    PooledToken,
+    PoolReserveSnapshot,
+    PoolType,
+    Swap
+} from "../../model";
 import { Ctx } from "../../processor";
-import { DexGeneralPairStatusesStorage, DexStablePoolsStorage } from "../../types/storage";
-import { BasePool, CurrencyId, PairStatus_Trading, Pool, Pool_Base, Pool_Meta } from "../../types/v1021000";
-import { invertMap } from "../_utils";
-import { currencyId as currencyEncoder, currencyToString } from "../encoding";
+import {
+    DexGeneralPairStatusesStorage,
+    DexStablePoolsStorage,
+    TokensAccountsStorage,
+    TokensTotalIssuanceStorage
+} from "../../types/storage";
+import { BasePool, CurrencyId, LpToken, PairStatus_Trading, Pool, Pool_Base, Pool_Meta } from "../../types/v1021000";
+import { convertAmountToHuman, getExchangeRate, invertMap } from "../_utils";
+import { address, currencyId as currencyEncoder, currencyToString } from "../encoding";
 import EntityBuffer from "../utils/entityBuffer";
+import { compareCurrencies, inferGeneralPoolId } from "./currencyOrder";
 import { SwapDetails, createPooledAmount } from "./cumulativeVolumes";
 
 // Matching value on parachain
@@ -18,27 +35,6 @@ const DEX_STABLE_FEE_DENOMINATOR: number = 10_000_000_000;
 // DexGeneral fees are denominated in basis points
 const DEX_GENERAL_FEE_DENOMINATOR: number = 10_000;
 
-// Replicated order from parachain code. 
-// See https://github.com/interlay/interbtc/blob/4cf80ce563825d28d637067a8a63c1d9825be1f4/primitives/src/lib.rs#L492-L498
-const currencyTypeToIndexMap = new Map([
-    ["NativeToken", 0],
-    ["ForeignAsset", 1],
-    ["LendToken", 2],
-    ["LpToken", 3],
-    ["StableLpToken", 4]
-]);
-
-// Replicated order from parachain code. 
-// See also https://github.com/interlay/interbtc/blob/d48fee47e153291edb92525221545c2f4fa58501/primitives/src/lib.rs#L469-L476
-const nativeTokenToIndexMap: Map<Token, number> = new Map([
-    [Token.DOT, 0],
-    [Token.IBTC, 1],
-    [Token.INTR, 2],
-    [Token.KSM, 10],
-    [Token.KBTC, 11],
-    [Token.KINT, 12]
-]);
-
 // poor man's stable pool id to currencies cache
 const stablePoolCurrenciesCache = new Map<number, [Currency, CurrencyId][]>();
 
@@ -102,98 +98,6 @@ export async function getStablePoolCurrencyByIndex(
     throw Error(`getStablePoolCurrencyByIndex: Unable to find currency in DexStablePoolsStorage for given poolId [${poolId}] and currency index [${index}]`);
 }
 
-function compareCurrencyType(currency0: Currency, currency1: Currency): number {
-    if (currency0.isTypeOf === currency1.isTypeOf) {
-        return 0;
-    }
-
-    const typeIndex0 = currencyTypeToIndexMap.get(currency0.isTypeOf);
-    const typeIndex1 = currencyTypeToIndexMap.get(currency1.isTypeOf);
-
-    if (typeIndex0 === undefined) {
-        throw Error(`Unable to find index for given currency type [${currency0.isTypeOf}]`);
-    }
-    if (typeIndex1 === undefined) {
-        throw Error(`Unable to find index for given currency type [${currency1.isTypeOf}]`);
-    }
-
-    return typeIndex0 - typeIndex1;
-}
-
-function currencyToIndex(currency: Currency): number {
-    switch(currency.isTypeOf) {
-        case "NativeToken":
-            const tokenIndex = nativeTokenToIndexMap.get(currency.token);
-            if (tokenIndex === undefined) {
-                throw Error(`currencyToIndex: Unknown or unhandled native token [${currency.token.toString()}]`);
-            }
-            return tokenIndex;
-        case "ForeignAsset":
-            return currency.asset;
-        case "LendToken":
-            return currency.lendTokenId;
-        case "StableLpToken":
-            return currency.poolId;
-        default:
-            throw Error(`currencyToIndex:  Unknown or unsupported currency type [${currency.isTypeOf}]`);
-    }
-}
-
-/**
- * For sorting currencies.
- * @param currency0 first currency
- * @param currency1 second currency
- * @returns A negative number if currency0 should be listed before currency1, 
- *          a positive number if currency1 should be listed before currency0, 
- *          otherwise returns 0
- */
-export function compareCurrencies(currency0: Currency, currency1: Currency): number {
-    const typeCompare = compareCurrencyType(currency0, currency1);
-    if (typeCompare != 0) {
-        return typeCompare;
-    }
-
-    const index0 = currencyToIndex(currency0);
-    const index1 = currencyToIndex(currency1);
-    return index0 - index1;
-}
-
-/**
- * Order the given currencies in a consistent manner according to their type and ids / token names.
- * 
- * Replicates the parachain's ordering as defined in these two spots: 
- * https://github.com/interlay/interbtc/blob/4cf80ce563825d28d637067a8a63c1d9825be1f4/primitives/src/lib.rs#L492-L498
- * and
- * https://github.com/interlay/interbtc/blob/d48fee47e153291edb92525221545c2f4fa58501/primitives/src/lib.rs#L469-L476
- * 
- * @param currency0 One currency
- * @param currency1 The other currency
- * @returns A tuple of the two currencies in the same order as the parachain would put them in. 
- */
-export function orderCurrencies(currency0: Currency, currency1: Currency): [Currency, Currency] {
-    if (compareCurrencies(currency0, currency1) > 0) {
-        return [currency1, currency0];
-    } else {
-        return [currency0, currency1];
-    }
-}
-
-/**
- * Calculate the standard pool's id given 2 currencies.
- * This method will sort the currencies and return their ids/tickers in a specific order.
- * 
- * @param currency0 One currency
- * @param currency1 The other currency
- */
-export function inferGeneralPoolId(currency0: Currency, currency1: Currency): string {
-    const [first, second] = orderCurrencies(currency0, currency1);
-
-    const firstCurrencyString: string = currencyToString(first);
-    const secondCurrencyString: string = currencyToString(second);
-    
-    return `(${firstCurrencyString},${secondCurrencyString})`;
-}
-
 function getDexGeneralPairStatusesStorage(ctx: Ctx, block: SubstrateBlock): DexGeneralPairStatusesStorage {
     const dexGeneralStorage = new DexGeneralPairStatusesStorage(ctx, block);
     if (!dexGeneralStorage.isExists) {
@@ -221,6 +125,29 @@ function getAsBasePool(pool: Pool): BasePool {
     }
 }
 
+// BTC and USDT values of a swapped amount at trade time, unset if the currency has no price.
+// Reads oracle updates from the store, so swaps are mapped after the batch's feeds are saved.
+async function getSwapAmountValue(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    amount: PooledAmount
+): Promise<{ btc?: number, usdt?: number }> {
+    try {
+        const { btc, usdt, btcUsdtExchangeRate } = await getExchangeRate(ctx, block.timestamp, amount.token, amount.amount.toString());
+        return { btc: btc.toNumber(), usdt: btcUsdtExchangeRate && usdt.toNumber() };
+    } catch (e) {
+        ctx.log.warn(`Unable to price swapped ${JSON.stringify(amount.token.toJSON())} at block ${block.height}: ${(e as Error).message}`);
+        return {};
+    }
+}
+
+/**
+ * USDT value of a swap: the from amount's, or the to amount's if the from currency has no price.
+ */
+export function getSwapVolumeUsdt(swap: Swap): number | undefined {
+    return swap.fromUsdt ?? swap.toUsdt ?? undefined;
+}
+
 export async function buildNewSwapEntity(
     ctx: Ctx,
     block: SubstrateBlock,
@@ -270,9 +197,17 @@ export async function buildNewSwapEntity(
         createPooledAmount(feeDetails),
     ]);
 
+    const [fromValue, toValue, feesValue] = await Promise.all([
+        getSwapAmountValue(ctx, block, fromAmount),
+        getSwapAmountValue(ctx, block, toAmount),
+        getSwapAmountValue(ctx, block, feesAmount),
+    ]);
+
     const ccyPair = inferGeneralPoolId(swapDetails.from.currency, swapDetails.to.currency);
 
-    const entityPoolId = PoolType.Standard ? ccyPair : String(poolId!);
+    // stable swaps indexed before they were keyed by pool id carry the currency pair instead;
+    // the pool id is not recorded elsewhere, so those rows need a full reindex
+    const entityPoolId = poolType === PoolType.Standard ? ccyPair : String(poolId!);
 
     const entity = new Swap({
         id: `swap_${entityPoolId}_${eventId}`,
@@ -286,7 +221,17 @@ export async function buildNewSwapEntity(
         from: fromAmount,
         to: toAmount,
         fees: feesAmount,
-        feeRate: BigDecimal(feeRate.toString())
+        feeRate: BigDecimal(feeRate.toString()),
+        // fees are included in the from amount, so this is the price the trader got
+        executionPrice: fromAmount.amount > 0n && toAmount.amount > 0n
+            ? toAmount.amountHuman!.div(fromAmount.amountHuman!)
+            : undefined,
+        fromBtc: fromValue.btc,
+        fromUsdt: fromValue.usdt,
+        toBtc: toValue.btc,
+        toUsdt: toValue.usdt,
+        feesBtc: feesValue.btc,
+        feesUsdt: feesValue.usdt
     });
 
     return entity;
@@ -387,4 +332,251 @@ export async function getLatestDexStableFeesEntity(
         (await getOrCreateDexStableFeesEntityFromStore(ctx, block, poolId, timestamp));
 
     return latestEntity;
+}
+
+/**
+ * Check whether the currency can be held in a DEX pool.
+ */
+export function isPooledToken(currency: Currency): currency is PooledToken {
+    try {
+        fromJsonPooledToken(currency);
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+function derivePoolReserveSnapshotId(poolId: string, block: SubstrateBlock): string {
+    return `${poolId}-${block.height}`;
+}
+
+// values the reserves at the oracle prices of the block, read from the store like swap values
+async function createPoolReserveSnapshot(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    poolType: PoolType,
+    poolId: string,
+    reserves: [PooledToken, bigint][],
+    totalSupply: bigint,
+    height: Height
+): Promise<PoolReserveSnapshot> {
+    const amounts = await Promise.all(reserves.map(async ([token, amount]) => new PooledAmount({
+        token,
+        amount,
+        amountHuman: await convertAmountToHuman(token, amount)
+    })));
+
+    let valueBtc: number | undefined = 0;
+    let valueUsdt: number | undefined = 0;
+    try {
+        for (const reserve of amounts) {
+            const { btc, usdt, btcUsdtExchangeRate } = await getExchangeRate(ctx, block.timestamp, reserve.token, reserve.amount.toString());
+            valueBtc += btc.toNumber();
+            valueUsdt = btcUsdtExchangeRate && valueUsdt !== undefined ? valueUsdt + usdt.toNumber() : undefined;
+        }
+    } catch (e) {
+        ctx.log.warn(`Unable to value reserves of pool ${poolId} at block ${block.height}: ${(e as Error).message}`);
+        valueBtc = undefined;
+        valueUsdt = undefined;
+    }
+
+    return new PoolReserveSnapshot({
+        id: derivePoolReserveSnapshotId(poolId, block),
+        poolType,
+        poolId,
+        reserves: amounts,
+        totalSupply,
+        valueBtc,
+        valueUsdt,
+        height,
+        timestamp: new Date(block.timestamp),
+    });
+}
+
+/**
+ * Reads a standard pool's reserves, held by its pair account, from the chain state after the block.
+ * 
+ * @param ctx The context with store
+ * @param block The block
+ * @param currencies The pool's two currencies, in any order
+ * @param height The block's height entity
+ * @param entityBuffer The entity buffer, snapshots already taken for this block are not taken again
+ * @returns The snapshot, or undefined if the pair is not trading
+ */
+export async function buildStandardPoolReserveSnapshot(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    currencies: [[PooledToken, CurrencyId], [PooledToken, CurrencyId]],
+    height: Height,
+    entityBuffer: EntityBuffer
+): Promise<PoolReserveSnapshot | undefined> {
+    const [first, second] = compareCurrencies(currencies[0][0], currencies[1][0]) < 0
+        ? currencies
+        : [currencies[1], currencies[0]];
+    const poolId = inferGeneralPoolId(first[0], second[0]);
+    const bufferedSnapshot = entityBuffer.getBufferedEntityBy(
+        PoolReserveSnapshot.name,
+        derivePoolReserveSnapshotId(poolId, block)
+    );
+    if (bufferedSnapshot) {
+        return bufferedSnapshot as PoolReserveSnapshot;
+    }
+
+    const dexGeneralStorage = getDexGeneralPairStatusesStorage(ctx, block);
+    const tokensAccountsStorage = new TokensAccountsStorage(ctx, block);
+    if (!dexGeneralStorage.isV1021000 || !tokensAccountsStorage.isV1021000) {
+        ctx.log.warn("UNKOWN STORAGE VERSION: DexGeneral.PairStatuses or Tokens.Accounts");
+        return undefined;
+    }
+    const pairStatus = await dexGeneralStorage.getAsV1021000([first[1], second[1]]);
+    if (pairStatus.__kind !== "Trading") {
+        return undefined;
+    }
+    const { pairAccount, totalSupply } = (pairStatus as PairStatus_Trading).value;
+    const [firstAccount, secondAccount] = await tokensAccountsStorage.getManyAsV1021000([
+        [pairAccount, first[1]],
+        [pairAccount, second[1]],
+    ]);
+
+    return createPoolReserveSnapshot(
+        ctx,
+        block,
+        PoolType.Standard,
+        poolId,
+        [[first[0], firstAccount.free], [second[0], secondAccount.free]],
+        totalSupply,
+        height
+    );
+}
+
+/**
+ * Reads a stable pool's reserves from the chain state after the block.
+ * 
+ * @param ctx The context with store
+ * @param block The block
+ * @param poolId The stable pool id
+ * @param height The block's height entity
+ * @param entityBuffer The entity buffer, snapshots already taken for this block are not taken again
+ * @returns The snapshot, or undefined if the pool cannot be read
+ */
+export async function buildStablePoolReserveSnapshot(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    poolId: number,
+    height: Height,
+    entityBuffer: EntityBuffer
+): Promise<PoolReserveSnapshot | undefined> {
+    const entityPoolId = String(poolId);
+    const bufferedSnapshot = entityBuffer.getBufferedEntityBy(
+        PoolReserveSnapshot.name,
+        derivePoolReserveSnapshotId(entityPoolId, block)
+    );
+    if (bufferedSnapshot) {
+        return bufferedSnapshot as PoolReserveSnapshot;
+    }
+
+    const dexStablePoolsStorage = getDexStablePoolsStorage(ctx, block);
+    const totalIssuanceStorage = new TokensTotalIssuanceStorage(ctx, block);
+    if (!dexStablePoolsStorage.isV1021000 || !totalIssuanceStorage.isV1021000) {
+        ctx.log.warn("UNKOWN STORAGE VERSION: DexStable.Pools or Tokens.TotalIssuance");
+        return undefined;
+    }
+    const pool = await dexStablePoolsStorage.getAsV1021000(poolId);
+    if (pool == undefined) {
+        ctx.log.warn(`buildStablePoolReserveSnapshot: Unable to find stable pool in storage for given poolId [${poolId}]`);
+        return undefined;
+    }
+    const basePool = getAsBasePool(pool);
+
+    const reserves: [PooledToken, bigint][] = [];
+    for (const [index, rawCurrencyId] of basePool.currencyIds.entries()) {
+        const currency = currencyEncoder.encode(rawCurrencyId);
+        if (!isPooledToken(currency)) {
+            ctx.log.warn(`buildStablePoolReserveSnapshot: Unexpected currency type ${currency.isTypeOf} in stable pool [${poolId}]`);
+            return undefined;
+        }
+        reserves.push([currency, basePool.balances[index]]);
+    }
+    const totalSupply = await totalIssuanceStorage.getAsV1021000(basePool.lpCurrencyId);
+
+    return createPoolReserveSnapshot(
+        ctx,
+        block,
+        PoolType.Stable,
+        entityPoolId,
+        reserves,
+        totalSupply,
+        height
+    );
+}
+
+/**
+ * The LP token currency id of a standard pool, with the pair ordered as on chain.
+ */
+export function getStandardPoolLpCurrencyId(
+    currencies: [[PooledToken, CurrencyId], [PooledToken, CurrencyId]]
+): CurrencyId {
+    const [first, second] = compareCurrencies(currencies[0][0], currencies[1][0]) < 0
+        ? currencies
+        : [currencies[1], currencies[0]];
+    return {
+        __kind: "LpToken",
+        value: [first[1] as LpToken, second[1] as LpToken]
+    };
+}
+
+/**
+ * Updates an account's LP position from its LP token balance after the block.
+ * 
+ * @param ctx The context with store
+ * @param block The block
+ * @param accountId The account holding the LP tokens
+ * @param poolSnapshot The pool's reserves after the block
+ * @param lpCurrencyId The pool's LP token currency id
+ * @param height The block's height entity
+ * @returns The updated position, or undefined if the balance cannot be read
+ */
+export async function buildLpPosition(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    accountId: string,
+    poolSnapshot: PoolReserveSnapshot,
+    lpCurrencyId: CurrencyId,
+    height: Height
+): Promise<LpPosition | undefined> {
+    const tokensAccountsStorage = new TokensAccountsStorage(ctx, block);
+    if (!tokensAccountsStorage.isV1021000) {
+        ctx.log.warn("UNKOWN STORAGE VERSION: Tokens.Accounts");
+        return undefined;
+    }
+    const { free, reserved } = await tokensAccountsStorage.getAsV1021000(
+        address.parachain.decode(accountId),
+        lpCurrencyId
+    );
+    const balance = free + reserved;
+    const totalSupply = poolSnapshot.totalSupply;
+
+    const underlyingAmounts = await Promise.all(poolSnapshot.reserves.map(async (reserve) => {
+        const amount = totalSupply > 0n ? reserve.amount * balance / totalSupply : 0n;
+        return new PooledAmount({
+            token: reserve.token,
+            amount,
+            amountHuman: await convertAmountToHuman(reserve.token, amount)
+        });
+    }));
+
+    return new LpPosition({
+        id: `${accountId}-${poolSnapshot.poolId}`,
+        accountId,
+        poolType: poolSnapshot.poolType,
+        poolId: poolSnapshot.poolId,
+        lpToken: currencyEncoder.encode(lpCurrencyId),
+        balance,
+        shareOfPool: totalSupply > 0n
+            ? BigDecimal(balance.toString()).div(BigDecimal(totalSupply.toString())).toNumber()
+            : 0,
+        underlyingAmounts,
+        height,
+        timestamp: new Date(block.timestamp),
+    });
 }
\ No newline at end of file
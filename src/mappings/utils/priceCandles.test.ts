@@ -0,0 +1,19 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { PriceCandleInterval } from "../../model";
+import { candleStartTime, oracleValueToBtcPrice } from "./priceCandles";
+
+describe("priceCandles", () => {
+    it("should start candles at the UTC hour and day", () => {
+        const timestamp = new Date("2023-03-04T05:06:07.089Z");
+
+        expect(candleStartTime(timestamp, PriceCandleInterval.Hour)).toEqual(new Date("2023-03-04T05:00:00Z"));
+        expect(candleStartTime(timestamp, PriceCandleInterval.Day)).toEqual(new Date("2023-03-04T00:00:00Z"));
+    });
+
+    it("should convert oracle values to BTC per unit", () => {
+        // 1 BTC = 2000 KSM, i.e. 2000 * 10^12 planck per 10^8 satoshi
+        const rawValue = 2000n * 10n ** 12n * 10n ** 18n / 10n ** 8n;
+
+        expect(oracleValueToBtcPrice(rawValue, 12)).toEqual(BigDecimal("0.0005"));
+    });
+});
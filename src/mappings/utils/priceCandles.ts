@@ -0,0 +1,152 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { Currency, ForeignAsset, Height, PriceCandle, PriceCandleInterval } from "../../model";
+import { Ctx } from "../../processor";
+import { currencyToString } from "../encoding";
+import { decimalsFromCurrency, getUsdtAssetId, tickerFromCurrency } from "../_utils";
+import EntityBuffer from "./entityBuffer";
+
+// oracle values are fixed point numbers with 18 decimals, in atomic units per satoshi
+const ORACLE_VALUE_DECIMALS = 18;
+const BTC_DECIMALS = 8;
+
+const intervalLengthMs = new Map<PriceCandleInterval, number>([
+    [PriceCandleInterval.Hour, 60 * 60 * 1000],
+    [PriceCandleInterval.Day, 24 * 60 * 60 * 1000],
+]);
+
+/**
+ * Start of the UTC hour or day the timestamp falls into.
+ */
+export function candleStartTime(timestamp: Date, interval: PriceCandleInterval): Date {
+    const length = intervalLengthMs.get(interval)!;
+    return new Date(Math.floor(timestamp.getTime() / length) * length);
+}
+
+/**
+ * Price of one unit of a currency in BTC, from an oracle value.
+ */
+export function oracleValueToBtcPrice(rawValue: bigint, decimals: number): BigDecimal {
+    return BigDecimal(10n ** BigInt(decimals + ORACLE_VALUE_DECIMALS - BTC_DECIMALS)).div(
+        BigDecimal(rawValue)
+    );
+}
+
+/**
+ * Latest candle of the currency, from the buffer or db.
+ */
+export async function getLatestPriceCandle(
+    ctx: Ctx,
+    currencyKey: string,
+    interval: PriceCandleInterval,
+    entityBuffer: EntityBuffer
+): Promise<PriceCandle | undefined> {
+    const latestInBuffer = (
+        entityBuffer.getBufferedEntities(PriceCandle.name) as PriceCandle[]
+    )
+        .filter((candle) => candle.currencyKey === currencyKey && candle.interval === interval)
+        .reduce<PriceCandle | undefined>(
+            (prev, current) =>
+                prev === undefined ||
+                current.closeTimestamp.getTime() >= prev.closeTimestamp.getTime()
+                    ? current
+                    : prev,
+            undefined
+        );
+
+    return (
+        latestInBuffer ||
+        (await ctx.store.get(PriceCandle, {
+            where: { currencyKey, interval },
+            order: { closeTimestamp: "DESC" },
+        }))
+    );
+}
+
+// extends a candle by one price, starting it if the price is the first one
+function updatedRange(
+    candle: { open?: BigDecimal | null; high?: BigDecimal | null; low?: BigDecimal | null },
+    price: BigDecimal
+) {
+    return {
+        open: candle.open ?? price,
+        high: candle.high && candle.high.gt(price) ? candle.high : price,
+        low: candle.low && candle.low.lt(price) ? candle.low : price,
+        close: price,
+    };
+}
+
+/**
+ * Adds an oracle exchange rate feed to the hourly and daily candles of the currency.
+ * USDT prices are derived through the latest BTC/USDT feed.
+ */
+export async function updatePriceCandles(
+    ctx: Ctx,
+    currency: Currency,
+    rawValue: bigint,
+    height: Height,
+    timestamp: Date,
+    entityBuffer: EntityBuffer
+): Promise<void> {
+    if (rawValue === 0n) {
+        ctx.log.warn(`WARNING: zero oracle value for ${JSON.stringify(currency.toJSON())}, skipping price candles`);
+        return;
+    }
+    const currencyKey = currencyToString(currency);
+    const priceBtc = oracleValueToBtcPrice(rawValue, await decimalsFromCurrency(currency));
+
+    const usdtAssetId = getUsdtAssetId();
+    let priceUsdt: BigDecimal | undefined;
+    if (usdtAssetId !== undefined) {
+        const usdtKey = currencyToString(new ForeignAsset({ asset: usdtAssetId }));
+        if (currencyKey === usdtKey) {
+            priceUsdt = BigDecimal(1);
+        } else {
+            const usdtCandle = await getLatestPriceCandle(ctx, usdtKey, PriceCandleInterval.Hour, entityBuffer);
+            priceUsdt = usdtCandle && priceBtc.div(usdtCandle.closeBtc);
+        }
+    }
+
+    for (const interval of intervalLengthMs.keys()) {
+        const startTime = candleStartTime(timestamp, interval);
+        const id = `${currencyKey}-${interval}-${startTime.getTime()}`;
+        const candle =
+            (entityBuffer.getBufferedEntityBy(PriceCandle.name, id) as PriceCandle) ||
+            (await ctx.store.get(PriceCandle, id)) ||
+            new PriceCandle({
+                id,
+                currency,
+                currencyKey,
+                currencySymbol: await tickerFromCurrency(currency),
+                interval,
+                startTime,
+                openRaw: rawValue,
+                openTimestamp: timestamp,
+                feedCount: 0,
+            });
+
+        const btc = updatedRange(
+            { open: candle.openBtc, high: candle.highBtc, low: candle.lowBtc },
+            priceBtc
+        );
+        candle.openBtc = btc.open;
+        candle.highBtc = btc.high;
+        candle.lowBtc = btc.low;
+        candle.closeBtc = btc.close;
+        if (priceUsdt !== undefined) {
+            const usdt = updatedRange(
+                { open: candle.openUsdt, high: candle.highUsdt, low: candle.lowUsdt },
+                priceUsdt
+            );
+            candle.openUsdt = usdt.open;
+            candle.highUsdt = usdt.high;
+            candle.lowUsdt = usdt.low;
+            candle.closeUsdt = usdt.close;
+        }
+        candle.closeRaw = rawValue;
+        candle.closeTimestamp = timestamp;
+        candle.feedCount += 1;
+        candle.height = height;
+
+        entityBuffer.pushEntity(PriceCandle.name, candle);
+    }
+}
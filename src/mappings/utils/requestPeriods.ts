@@ -1,11 +1,12 @@
 import { xxhashAsHex } from "@polkadot/util-crypto";
 import { SubstrateBlock } from "@subsquid/substrate-processor";
 import { LessThanOrEqual } from "typeorm";
-import { Height, IssuePeriod, RedeemPeriod } from "../../model";
+import { Height, IssuePeriod, RedeemPeriod, ReplacePeriod } from "../../model";
 import { Ctx } from "../../processor";
 import {
     IssueIssuePeriodStorage,
     RedeemRedeemPeriodStorage,
+    ReplaceReplacePeriodStorage,
 } from "../../types/storage";
 import { blockToHeight } from "./heights";
 
@@ -39,6 +40,23 @@ export async function getCurrentRedeemPeriod(ctx: Ctx, block: SubstrateBlock) {
     return await setInitialRedeemPeriod(ctx, block, height);
 }
 
+export async function getCurrentReplacePeriod(
+    ctx: Ctx,
+    block: SubstrateBlock
+): Promise<ReplacePeriod> {
+    const height = await blockToHeight(ctx, block.height);
+    const latest = await ctx.store.get(ReplacePeriod, {
+        where: {
+            height: { absolute: LessThanOrEqual(block.height) },
+        },
+        order: { timestamp: "DESC" },
+    });
+    if (latest !== undefined) return latest;
+
+    // else fetch from storage
+    return await setInitialReplacePeriod(ctx, block, height);
+}
+
 async function getLatestStoredRedeemPeriod(
     ctx: Ctx,
     height: number
@@ -129,3 +147,27 @@ async function setInitialRedeemPeriod(
     ctx.store.save(redeemPeriod);
     return redeemPeriod;
 }
+
+async function setInitialReplacePeriod(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    height: Height
+) {
+    const rawReplacePeriodStorage = new ReplaceReplacePeriodStorage(ctx, block);
+    let value;
+    if (rawReplacePeriodStorage.isV1021000)
+        value = await rawReplacePeriodStorage.getAsV1021000();
+    else throw Error("Unknown storage version");
+    if (!rawReplacePeriodStorage.isExists)
+        throw new Error("Replace period does not exist");
+
+    const replacePeriod = new ReplacePeriod({
+        id: `initial-${block.timestamp.toString()}`,
+        height,
+        timestamp: new Date(block.timestamp),
+        value,
+    });
+
+    await ctx.store.save(replacePeriod);
+    return replacePeriod;
+}
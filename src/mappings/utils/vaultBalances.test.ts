@@ -0,0 +1,44 @@
+import { addVaultBalanceDeltas, getLiquidationDeltas } from "./vaultBalances";
+
+describe("vaultBalances", () => {
+    const balances = () => ({
+        lockedCollateral: 1000n,
+        issuedTokens: 50n,
+        toBeIssuedTokens: 10n,
+        toBeRedeemedTokens: 0n,
+    });
+
+    it("should clear issued tokens and collateral of a liquidated vault", () => {
+        const vault = balances();
+        addVaultBalanceDeltas(vault, getLiquidationDeltas({
+            issuedTokens: 50n,
+            toBeIssuedTokens: 10n,
+            toBeRedeemedTokens: 0n,
+            backingCollateral: 1000n,
+        }));
+
+        expect(vault).toEqual({
+            lockedCollateral: 0n,
+            issuedTokens: 0n,
+            toBeIssuedTokens: 0n,
+            toBeRedeemedTokens: 0n,
+        });
+    });
+
+    it("should keep tokens still to be redeemed with a liquidated vault", () => {
+        const vault = { ...balances(), toBeRedeemedTokens: 20n };
+        addVaultBalanceDeltas(vault, getLiquidationDeltas({
+            issuedTokens: 50n,
+            toBeIssuedTokens: 10n,
+            toBeRedeemedTokens: 20n,
+            backingCollateral: 600n,
+        }));
+
+        expect(vault).toEqual({
+            lockedCollateral: 400n,
+            issuedTokens: 20n,
+            toBeIssuedTokens: 0n,
+            toBeRedeemedTokens: 20n,
+        });
+    });
+});
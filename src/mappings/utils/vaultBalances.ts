@@ -0,0 +1,284 @@
+import { FIXEDI128_SCALING_FACTOR } from "@interlay/interbtc-api";
+import { SubstrateBlock } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { LessThanOrEqual } from "typeorm";
+import {
+    Height,
+    Vault,
+    VaultBalanceSnapshot,
+    VaultCollateralization,
+} from "../../model";
+import { Ctx } from "../../processor";
+import {
+    VaultRegistryVaultsStorage,
+    VaultStakingNonceStorage,
+    VaultStakingTotalCurrentStakeStorage,
+} from "../../types/storage";
+import { VaultId as VaultIdV1020000 } from "../../types/v1020000";
+import { VaultId } from "../../types/v1021000";
+import { encodeVaultId } from "../encoding";
+import { convertAmountToHuman, getVaultId } from "../_utils";
+import EntityBuffer from "./entityBuffer";
+import { blockToHeight } from "./heights";
+import { updateVaultCollateralization } from "./vaultCollateralization";
+
+export type VaultBalanceDeltas = {
+    collateral?: bigint;
+    issued?: bigint;
+    toBeIssued?: bigint;
+    toBeRedeemed?: bigint;
+};
+
+type VaultBalances = {
+    lockedCollateral: bigint;
+    issuedTokens: bigint;
+    toBeIssuedTokens: bigint;
+    toBeRedeemedTokens: bigint;
+};
+
+type VaultLiquidationAmounts = {
+    issuedTokens: bigint;
+    toBeIssuedTokens: bigint;
+    toBeRedeemedTokens: bigint;
+    backingCollateral: bigint;
+};
+
+/**
+ * Balance changes of a liquidated vault: its issued and to-be-issued tokens
+ * move to the liquidation vault and the backing collateral is confiscated.
+ * Tokens still to be redeemed stay with the vault, as issued tokens.
+ */
+export function getLiquidationDeltas(
+    liquidation: VaultLiquidationAmounts
+): VaultBalanceDeltas {
+    return {
+        collateral: -liquidation.backingCollateral,
+        issued: liquidation.toBeRedeemedTokens - liquidation.issuedTokens,
+        toBeIssued: -liquidation.toBeIssuedTokens,
+    };
+}
+
+export function addVaultBalanceDeltas(
+    balances: VaultBalances,
+    deltas: VaultBalanceDeltas
+): void {
+    balances.lockedCollateral += deltas.collateral || 0n;
+    balances.issuedTokens += deltas.issued || 0n;
+    balances.toBeIssuedTokens += deltas.toBeIssued || 0n;
+    balances.toBeRedeemedTokens += deltas.toBeRedeemed || 0n;
+}
+
+/**
+ * Reads the balances of a vault from chain storage as of the parent block,
+ * so that every balance event of the current block still applies as a delta.
+ * Used to seed the first snapshot of vaults whose earlier balance events
+ * could not be decoded (runtimes before 1.20).
+ */
+async function getStoredVaultBalances(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    vaultId: VaultId
+): Promise<VaultBalances | undefined> {
+    const parentBlock = { hash: block.parentHash };
+    const vaultsStorage = new VaultRegistryVaultsStorage(ctx, parentBlock);
+    const nonceStorage = new VaultStakingNonceStorage(ctx, parentBlock);
+    const stakeStorage = new VaultStakingTotalCurrentStakeStorage(
+        ctx,
+        parentBlock
+    );
+
+    let vault;
+    let fixedPointStake;
+    if (
+        vaultsStorage.isV1020000 &&
+        nonceStorage.isV1020000 &&
+        stakeStorage.isV1020000
+    ) {
+        // the vault id was decoded from a 1.20 event, so it only uses 1.20 currencies
+        const key = vaultId as VaultIdV1020000;
+        vault = await vaultsStorage.getAsV1020000(key);
+        const nonce = await nonceStorage.getAsV1020000(key);
+        fixedPointStake = await stakeStorage.getAsV1020000(nonce, key);
+    } else if (
+        vaultsStorage.isV1021000 &&
+        nonceStorage.isV1021000 &&
+        stakeStorage.isV1021000
+    ) {
+        vault = await vaultsStorage.getAsV1021000(vaultId);
+        const nonce = await nonceStorage.getAsV1021000(vaultId);
+        fixedPointStake = await stakeStorage.getAsV1021000(nonce, vaultId);
+    } else {
+        return undefined;
+    }
+
+    return {
+        lockedCollateral:
+            fixedPointStake / 10n ** BigInt(FIXEDI128_SCALING_FACTOR),
+        issuedTokens: vault?.issuedTokens || 0n,
+        toBeIssuedTokens: vault?.toBeIssuedTokens || 0n,
+        toBeRedeemedTokens: vault?.toBeRedeemedTokens || 0n,
+    };
+}
+
+function getLatestBufferedSnapshot(
+    snapshots: VaultBalanceSnapshot[],
+    atOrBeforeTimestamp: Date
+): VaultBalanceSnapshot | undefined {
+    if (snapshots.length < 1) {
+        return undefined;
+    }
+
+    return snapshots
+        .filter(
+            (entity) =>
+                entity.timestamp.getTime() <= atOrBeforeTimestamp.getTime()
+        )
+        .reduce<VaultBalanceSnapshot | undefined>(
+            (prev, current) =>
+                prev === undefined ||
+                current.timestamp.getTime() > prev.timestamp.getTime()
+                    ? current
+                    : prev,
+            undefined
+        );
+}
+
+export async function getLatestVaultBalanceSnapshot(
+    store: Store,
+    vaultId: string,
+    atOrBeforeTimestamp: Date,
+    entityBuffer: EntityBuffer
+): Promise<VaultBalanceSnapshot | undefined> {
+    const snapshotsInBuffer = (
+        entityBuffer.getBufferedEntities(
+            VaultBalanceSnapshot.name
+        ) as VaultBalanceSnapshot[]
+    ).filter((entity) => entity.vault.id === vaultId);
+
+    return (
+        getLatestBufferedSnapshot(snapshotsInBuffer, atOrBeforeTimestamp) ||
+        (await store.get(VaultBalanceSnapshot, {
+            where: {
+                vault: { id: vaultId },
+                timestamp: LessThanOrEqual(atOrBeforeTimestamp),
+            },
+            order: { timestamp: "DESC" },
+        }))
+    );
+}
+
+/**
+ * Applies balance deltas to the snapshot of the given block, creating it from
+ * the latest earlier snapshot if needed. Without an earlier snapshot, the
+ * balances are seeded from chain storage when the raw vault id is given
+ * (otherwise, e.g. on registration, they start at zero).
+ */
+export async function updateVaultBalanceSnapshot(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    vault: Vault,
+    deltas: VaultBalanceDeltas,
+    height: Height,
+    entityBuffer: EntityBuffer,
+    rawVaultId?: VaultId
+): Promise<VaultBalanceSnapshot> {
+    const timestamp = new Date(block.timestamp);
+    const id = `${vault.id}-${timestamp.getTime().toString()}`;
+
+    // find by id if it exists in either entity buffer or db
+    let snapshot =
+        (entityBuffer.getBufferedEntityBy(
+            VaultBalanceSnapshot.name,
+            id
+        ) as VaultBalanceSnapshot) ||
+        (await ctx.store.get(VaultBalanceSnapshot, id));
+
+    if (snapshot === undefined) {
+        // first change in this block, carry over the latest balances
+        let previous: VaultBalances | undefined =
+            await getLatestVaultBalanceSnapshot(
+                ctx.store,
+                vault.id,
+                timestamp,
+                entityBuffer
+            );
+        if (previous === undefined && rawVaultId !== undefined) {
+            previous = await getStoredVaultBalances(ctx, block, rawVaultId);
+            if (previous === undefined) {
+                ctx.log.warn(
+                    `UNKOWN STORAGE VERSION: could not seed balances of vault ${vault.id} from chain storage; starting from zero`
+                );
+            }
+        }
+
+        snapshot = new VaultBalanceSnapshot({
+            id,
+            vault,
+            timestamp,
+            lockedCollateral: previous?.lockedCollateral || 0n,
+            issuedTokens: previous?.issuedTokens || 0n,
+            toBeIssuedTokens: previous?.toBeIssuedTokens || 0n,
+            toBeRedeemedTokens: previous?.toBeRedeemedTokens || 0n,
+        });
+    }
+
+    snapshot.vault = vault;
+    snapshot.height = height;
+    addVaultBalanceDeltas(snapshot, deltas);
+    snapshot.lockedCollateralHuman = await convertAmountToHuman(
+        vault.collateralToken,
+        snapshot.lockedCollateral
+    );
+    snapshot.issuedTokensHuman = await convertAmountToHuman(
+        vault.wrappedToken,
+        snapshot.issuedTokens
+    );
+
+    return snapshot;
+}
+
+export async function applyVaultBalanceDeltas(
+    ctx: Ctx,
+    block: SubstrateBlock,
+    vaultId: VaultId,
+    deltas: VaultBalanceDeltas,
+    entityBuffer: EntityBuffer,
+    eventName: string
+): Promise<void> {
+    const vault = await getVaultId(ctx.store, vaultId);
+    if (vault === undefined) {
+        ctx.log.warn(
+            `WARNING: no vault found for ${eventName} with encoded account-wrapped-collateral ID of ${encodeVaultId(
+                vaultId
+            )} (at parachain absolute height ${block.height})`
+        );
+        return;
+    }
+
+    const height = await blockToHeight(ctx, block.height, eventName);
+    const timestamp = new Date(block.timestamp);
+    const snapshot = await updateVaultBalanceSnapshot(
+        ctx,
+        block,
+        vault,
+        deltas,
+        height,
+        entityBuffer,
+        vaultId
+    );
+    entityBuffer.pushEntity(VaultBalanceSnapshot.name, snapshot);
+
+    const collateralization = await updateVaultCollateralization(
+        ctx,
+        vault,
+        snapshot,
+        height,
+        timestamp
+    );
+    if (collateralization !== undefined) {
+        entityBuffer.pushEntity(
+            VaultCollateralization.name,
+            collateralization
+        );
+    }
+}
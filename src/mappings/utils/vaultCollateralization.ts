@@ -0,0 +1,68 @@
+import { CurrencyExt, newMonetaryAmount } from "@interlay/interbtc-api";
+import { Bitcoin, ExchangeRate } from "@interlay/monetary-js";
+import { BigDecimal } from "@subsquid/big-decimal";
+import {
+    Height,
+    Vault,
+    VaultBalanceSnapshot,
+    VaultCollateralization,
+} from "../../model";
+import { Ctx } from "../../processor";
+import { getExchangeRate } from "../_utils";
+
+/**
+ * Values the locked collateral of the snapshot at the oracle price valid at timestamp,
+ * unless the BTC exchange rate of the collateral currency is passed in.
+ * Returns undefined (and logs) if no price is known for the collateral currency yet.
+ */
+export async function updateVaultCollateralization(
+    ctx: Ctx,
+    vault: Vault,
+    snapshot: VaultBalanceSnapshot,
+    height: Height,
+    timestamp: Date,
+    btcExchangeRate?: ExchangeRate<Bitcoin, CurrencyExt>
+): Promise<VaultCollateralization | undefined> {
+    let collateralValueBtc: BigDecimal;
+    try {
+        const rate =
+            btcExchangeRate ||
+            (
+                await getExchangeRate(
+                    ctx,
+                    timestamp.getTime(),
+                    vault.collateralToken,
+                    0
+                )
+            ).btcExchangeRate;
+        const collateral = newMonetaryAmount(
+            snapshot.lockedCollateral.toString(),
+            rate.counter
+        );
+        collateralValueBtc = BigDecimal(rate.toBase(collateral).toBig().toString());
+    } catch (error) {
+        ctx.log.warn(
+            `WARNING: unable to value collateral of vault ${vault.id} at ${timestamp.toISOString()}: ${
+                (error as Error).message
+            }`
+        );
+        return undefined;
+    }
+
+    // wrapped tokens are backed 1:1 by BTC
+    const collateralizationRatio =
+        snapshot.issuedTokens > 0n
+            ? collateralValueBtc.div(snapshot.issuedTokensHuman)
+            : null;
+
+    return new VaultCollateralization({
+        id: `${vault.id}-${timestamp.getTime().toString()}`,
+        vault,
+        height,
+        timestamp,
+        lockedCollateral: snapshot.lockedCollateral,
+        issuedTokens: snapshot.issuedTokens,
+        collateralValueBtc,
+        collateralizationRatio,
+    });
+}
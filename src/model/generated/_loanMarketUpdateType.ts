@@ -0,0 +1,5 @@
+export enum LoanMarketUpdateType {
+    New = "New",
+    Updated = "Updated",
+    Activated = "Activated",
+}
@@ -0,0 +1,4 @@
+export enum LoanRewardType {
+    Borrower = "Borrower",
+    Supplier = "Supplier",
+}
@@ -0,0 +1,4 @@
+export enum PriceCandleInterval {
+    Hour = "Hour",
+    Day = "Day",
+}
@@ -0,0 +1,5 @@
+export enum PriceConfidence {
+    High = "High",
+    Medium = "Medium",
+    Low = "Low",
+}
@@ -0,0 +1,6 @@
+export enum PriceSource {
+    Peg = "Peg",
+    Oracle = "Oracle",
+    Dex = "Dex",
+    OracleLater = "OracleLater",
+}
@@ -0,0 +1,4 @@
+export enum ReplaceOfferType {
+    Requested = "Requested",
+    Withdrawn = "Withdrawn",
+}
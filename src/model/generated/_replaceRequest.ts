@@ -0,0 +1,65 @@
+import assert from "assert"
+import * as marshal from "./marshal"
+import {Height} from "./height.model"
+
+export class ReplaceRequest {
+    private _amount!: bigint
+    private _height!: string
+    private _timestamp!: Date
+    private _backingHeight!: number
+
+    constructor(props?: Partial<Omit<ReplaceRequest, 'toJSON'>>, json?: any) {
+        Object.assign(this, props)
+        if (json != null) {
+            this._amount = marshal.bigint.fromJSON(json.amount)
+            this._height = marshal.string.fromJSON(json.height)
+            this._timestamp = marshal.datetime.fromJSON(json.timestamp)
+            this._backingHeight = marshal.int.fromJSON(json.backingHeight)
+        }
+    }
+
+    get amount(): bigint {
+        assert(this._amount != null, 'uninitialized access')
+        return this._amount
+    }
+
+    set amount(value: bigint) {
+        this._amount = value
+    }
+
+    get height(): string {
+        assert(this._height != null, 'uninitialized access')
+        return this._height
+    }
+
+    set height(value: string) {
+        this._height = value
+    }
+
+    get timestamp(): Date {
+        assert(this._timestamp != null, 'uninitialized access')
+        return this._timestamp
+    }
+
+    set timestamp(value: Date) {
+        this._timestamp = value
+    }
+
+    get backingHeight(): number {
+        assert(this._backingHeight != null, 'uninitialized access')
+        return this._backingHeight
+    }
+
+    set backingHeight(value: number) {
+        this._backingHeight = value
+    }
+
+    toJSON(): object {
+        return {
+            amount: marshal.bigint.toJSON(this.amount),
+            height: this.height,
+            timestamp: marshal.datetime.toJSON(this.timestamp),
+            backingHeight: this.backingHeight,
+        }
+    }
+}
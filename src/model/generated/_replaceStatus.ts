@@ -0,0 +1,6 @@
+export enum ReplaceStatus {
+    Completed = "Completed",
+    Cancelled = "Cancelled",
+    Expired = "Expired",
+    Pending = "Pending",
+}
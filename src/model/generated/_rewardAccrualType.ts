@@ -0,0 +1,4 @@
+export enum RewardAccrualType {
+    Distributed = "Distributed",
+    Withdrawn = "Withdrawn",
+}
@@ -0,0 +1,31 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+
+/**
+ * Total collateral nominated to a vault, excluding the vault's own collateral
+ */
+@Entity_()
+export class CumulativeNominatedCollateral {
+    constructor(props?: Partial<CumulativeNominatedCollateral>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    tillTimestamp!: Date
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    amountHuman!: BigDecimal
+}
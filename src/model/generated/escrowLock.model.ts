@@ -0,0 +1,53 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {Height} from "./height.model"
+
+/**
+ * Vote-escrow lock of an account, one entry per block it changed in
+ */
+@Entity_()
+export class EscrowLock {
+    constructor(props?: Partial<EscrowLock>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    accountId!: string
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    amountHuman!: BigDecimal
+
+    /**
+     * parachain block the lock expires at, zero once withdrawn
+     */
+    @Column_("int4", {nullable: false})
+    unlockHeight!: number
+
+    /**
+     * voting power lost per parachain block
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    slope!: bigint
+
+    /**
+     * voting power at the height of this entry, decays linearly to zero at unlockHeight
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    bias!: bigint
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
@@ -7,6 +7,16 @@ export * from "./_lendToken"
 export * from "./_lpToken"
 export * from "./_pooledToken"
 export * from "./_stableLpToken"
+export * from "./vaultBalanceSnapshot.model"
+export * from "./vaultCollateralization.model"
+export * from "./nomination.model"
+export * from "./nominationOptChange.model"
+export * from "./cumulativeNominatedCollateral.model"
+export * from "./rewardAccrual.model"
+export * from "./_rewardAccrualType"
+export * from "./vaultLiquidation.model"
+export * from "./vaultBan.model"
+export * from "./vaultUndercollateralizationReport.model"
 export * from "./height.model"
 export * from "./relayedBlock.model"
 export * from "./issue.model"
@@ -22,8 +32,18 @@ export * from "./_redeemStatus"
 export * from "./redeemPayment.model"
 export * from "./redeemExecution.model"
 export * from "./redeemCancellation.model"
+export * from "./replaceOffer.model"
+export * from "./_replaceOfferType"
+export * from "./replace.model"
+export * from "./_replaceRequest"
+export * from "./_replaceStatus"
+export * from "./replaceExecution.model"
+export * from "./replaceCancellation.model"
 export * from "./oracleUpdate.model"
 export * from "./_oracleUpdateType"
+export * from "./priceCandle.model"
+export * from "./_priceCandleInterval"
+export * from "./escrowLock.model"
 export * from "./cumulativeVolume.model"
 export * from "./_volumeType"
 export * from "./cumulativeVolumePerCurrencyPair.model"
@@ -36,19 +56,32 @@ export * from "./cumulativeDexTradeCountPerAccount.model"
 export * from "./cumulativeDexTradeCount.model"
 export * from "./issuePeriod.model"
 export * from "./redeemPeriod.model"
+export * from "./replacePeriod.model"
 export * from "./transfer.model"
 export * from "./loanMarket.model"
 export * from "./_rateModel"
 export * from "./_rateModelJump"
 export * from "./_rateModelCurve"
 export * from "./_marketState"
+export * from "./loanPosition.model"
+export * from "./loanHealth.model"
 export * from "./loanMarketActivation.model"
+export * from "./loanMarketUpdate.model"
+export * from "./_loanMarketUpdateType"
 export * from "./loan.model"
+export * from "./_priceSource"
+export * from "./_priceConfidence"
 export * from "./deposit.model"
 export * from "./interestAccrual.model"
+export * from "./loanMarketDailyStats.model"
 export * from "./swap.model"
+export * from "./poolCandle.model"
 export * from "./dexStableFees.model"
 export * from "./accountLiquidityProvision.model"
 export * from "./_liquidityProvisionType"
+export * from "./poolReserveSnapshot.model"
+export * from "./lpPosition.model"
 export * from "./cumulativeCirculatingSupply.model"
+export * from "./loanReward.model"
+export * from "./_loanRewardType"
 export * from "./loanLiquidation.model"
@@ -2,6 +2,8 @@ import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, M
 import * as marshal from "./marshal"
 import {Currency, fromJsonCurrency} from "./_currency"
 import {Height} from "./height.model"
+import {PriceSource} from "./_priceSource"
+import {PriceConfidence} from "./_priceConfidence"
 
 @Entity_()
 export class InterestAccrual {
@@ -78,4 +80,11 @@ export class InterestAccrual {
 
     @Column_("text", {nullable: true})
     comment!: string | undefined | null
+
+    @Column_("varchar", {length: 11, nullable: true})
+    priceSource!: PriceSource | undefined | null
+
+    @Index_()
+    @Column_("varchar", {length: 6, nullable: true})
+    priceConfidence!: PriceConfidence | undefined | null
 }
@@ -2,6 +2,8 @@ import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, M
 import * as marshal from "./marshal"
 import {Currency, fromJsonCurrency} from "./_currency"
 import {Height} from "./height.model"
+import {PriceSource} from "./_priceSource"
+import {PriceConfidence} from "./_priceConfidence"
 
 @Entity_()
 export class Loan {
@@ -51,4 +53,11 @@ export class Loan {
 
     @Column_("text", {nullable: false})
     currencySymbol!: string
+
+    @Column_("varchar", {length: 11, nullable: true})
+    priceSource!: PriceSource | undefined | null
+
+    @Index_()
+    @Column_("varchar", {length: 6, nullable: true})
+    priceConfidence!: PriceConfidence | undefined | null
 }
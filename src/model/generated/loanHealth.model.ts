@@ -0,0 +1,53 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {Height} from "./height.model"
+
+/**
+ * Health of an account's lending positions, recomputed when its positions or their prices change
+ */
+@Entity_()
+export class LoanHealth {
+    constructor(props?: Partial<LoanHealth>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    accountId!: string
+
+    /**
+     * collateral valued in BTC, weighted by each market's liquidation threshold
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    liquidationThresholdBtc!: BigDecimal
+
+    /**
+     * collateral valued in BTC, weighted by each market's collateral factor
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    borrowLimitBtc!: BigDecimal
+
+    /**
+     * outstanding borrows including accrued interest, valued in BTC
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    borrowedBtc!: BigDecimal
+
+    /**
+     * liquidationThresholdBtc divided by borrowedBtc, the account can be liquidated below 1; null without borrows
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    healthFactor!: BigDecimal | undefined | null
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
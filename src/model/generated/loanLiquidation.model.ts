@@ -1,7 +1,9 @@
 import {BigDecimal} from "@subsquid/big-decimal"
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
 import * as marshal from "./marshal"
+import {LoanMarket} from "./loanMarket.model"
 import {Currency, fromJsonCurrency} from "./_currency"
+import {Height} from "./height.model"
 
 @Entity_()
 export class LoanLiquidation {
@@ -12,6 +14,28 @@ export class LoanLiquidation {
     @PrimaryColumn_()
     id!: string
 
+    @Index_()
+    @Column_("text", {nullable: false})
+    borrower!: string
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    liquidator!: string
+
+    /**
+     * market the liquidator repaid debt in
+     */
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    market!: LoanMarket
+
+    /**
+     * market the collateral was seized from
+     */
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    collateralMarket!: LoanMarket
+
     @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
     amountRepaid!: bigint
 
@@ -24,6 +48,12 @@ export class LoanLiquidation {
     @Column_("text", {nullable: false})
     amountRepaidSymbol!: string
 
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    amountRepaidUsdt!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    amountRepaidBtc!: number
+
     @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
     seizedCollateral!: bigint
 
@@ -36,6 +66,12 @@ export class LoanLiquidation {
     @Column_("text", {nullable: false})
     seizedCollateralSymbol!: string
 
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    seizedCollateralUsdt!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    seizedCollateralBtc!: number
+
     @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
     liquidationCost!: bigint
 
@@ -48,6 +84,11 @@ export class LoanLiquidation {
     @Column_("text", {nullable: false})
     liquidationCostSymbol!: string
 
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
     @Column_("timestamp with time zone", {nullable: false})
     timestamp!: Date
 }
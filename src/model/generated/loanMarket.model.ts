@@ -1,10 +1,15 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToOne as OneToOne_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToOne as OneToOne_, OneToMany as OneToMany_} from "typeorm"
 import * as marshal from "./marshal"
 import {Currency, fromJsonCurrency} from "./_currency"
 import {Height} from "./height.model"
 import {RateModel, fromJsonRateModel} from "./_rateModel"
 import {MarketState} from "./_marketState"
 import {LoanMarketActivation} from "./loanMarketActivation.model"
+import {LoanPosition} from "./loanPosition.model"
+import {LoanReward} from "./loanReward.model"
+import {LoanLiquidation} from "./loanLiquidation.model"
+import {LoanMarketUpdate} from "./loanMarketUpdate.model"
+import {LoanMarketDailyStats} from "./loanMarketDailyStats.model"
 
 @Entity_()
 export class LoanMarket {
@@ -64,4 +69,19 @@ export class LoanMarket {
 
     @Column_("text", {nullable: false})
     currencySymbol!: string
+
+    @OneToMany_(() => LoanPosition, e => e.market)
+    positions!: LoanPosition[]
+
+    @OneToMany_(() => LoanReward, e => e.market)
+    rewards!: LoanReward[]
+
+    @OneToMany_(() => LoanLiquidation, e => e.market)
+    liquidations!: LoanLiquidation[]
+
+    @OneToMany_(() => LoanMarketUpdate, e => e.market)
+    updates!: LoanMarketUpdate[]
+
+    @OneToMany_(() => LoanMarketDailyStats, e => e.market)
+    dailyStats!: LoanMarketDailyStats[]
 }
@@ -0,0 +1,122 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {LoanMarket} from "./loanMarket.model"
+import {Height} from "./height.model"
+
+/**
+ * Activity of a lending market aggregated per UTC day
+ */
+@Entity_()
+export class LoanMarketDailyStats {
+    constructor(props?: Partial<LoanMarketDailyStats>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * market id and day (YYYY-MM-DD), separated by a dash
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    market!: LoanMarket
+
+    @Column_("text", {nullable: false})
+    currencySymbol!: string
+
+    /**
+     * start of the UTC day
+     */
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    date!: Date
+
+    /**
+     * interest accruals during the day, the utilization, APR and total fields are unset without any
+     */
+    @Column_("int4", {nullable: false})
+    accrualCount!: number
+
+    @Column_("timestamp with time zone", {nullable: true})
+    firstAccrualTimestamp!: Date | undefined | null
+
+    @Column_("timestamp with time zone", {nullable: true})
+    lastAccrualTimestamp!: Date | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    utilizationOpen!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    utilizationClose!: number | undefined | null
+
+    /**
+     * averages are weighted by how long each accrual's value was in effect between the first and last accrual of the day
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    utilizationAvg!: number | undefined | null
+
+    /**
+     * yearly borrow and supply rates in percent as set by the pallet, not compounded
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    borrowAprClose!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    borrowAprAvg!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    supplyAprClose!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    supplyAprAvg!: number | undefined | null
+
+    /**
+     * totals as of the last accrual of the day
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+    totalBorrows!: bigint | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalBorrowsNative!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalBorrowsBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalBorrowsUsdt!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+    totalReserves!: bigint | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalReservesNative!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalReservesBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    totalReservesUsdt!: number | undefined | null
+
+    /**
+     * accounts with an outstanding borrow as of the last update, carried over from the previous day
+     */
+    @Column_("int4", {nullable: false})
+    activeBorrowers!: number
+
+    /**
+     * accounts holding lend tokens as of the last update, carried over from the previous day
+     */
+    @Column_("int4", {nullable: false})
+    activeSuppliers!: number
+
+    /**
+     * last update
+     */
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
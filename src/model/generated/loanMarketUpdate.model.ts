@@ -0,0 +1,75 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {LoanMarketUpdateType} from "./_loanMarketUpdateType"
+import {LoanMarket} from "./loanMarket.model"
+import {Currency, fromJsonCurrency} from "./_currency"
+import {RateModel, fromJsonRateModel} from "./_rateModel"
+import {MarketState} from "./_marketState"
+import {Height} from "./height.model"
+
+/**
+ * Parameters of a lending market as set by one market event, kept for every change
+ */
+@Entity_()
+export class LoanMarketUpdate {
+    constructor(props?: Partial<LoanMarketUpdate>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * event id
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Column_("varchar", {length: 9, nullable: false})
+    type!: LoanMarketUpdateType
+
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    market!: LoanMarket
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: false})
+    token!: Currency
+
+    @Column_("text", {nullable: false})
+    currencySymbol!: string
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    borrowCap!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    supplyCap!: number
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonRateModel(obj)}, nullable: false})
+    rateModel!: RateModel
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    closeFactor!: number
+
+    @Column_("varchar", {length: 11, nullable: false})
+    state!: MarketState
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    reserveFactor!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    collateralFactor!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    liquidateIncentive!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    liquidationThreshold!: number
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    liquidateIncentiveReservedFactor!: number
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
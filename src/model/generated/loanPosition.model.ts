@@ -0,0 +1,65 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {LoanMarket} from "./loanMarket.model"
+import {Height} from "./height.model"
+
+/**
+ * Current balances of an account in a lending market, updated on every loans event touching them
+ */
+@Entity_()
+export class LoanPosition {
+    constructor(props?: Partial<LoanPosition>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * account and market id, separated by a dash
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    accountId!: string
+
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    market!: LoanMarket
+
+    /**
+     * underlying currency supplied, net of redemptions
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    supplied!: bigint
+
+    /**
+     * underlying currency owed as of borrowIndex, including interest accrued until then
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    borrowed!: bigint
+
+    /**
+     * market borrow index when borrowed was last updated, scale by the current index to get the outstanding debt
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: true})
+    borrowIndex!: bigint | undefined | null
+
+    /**
+     * lend tokens held, including those locked as collateral
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    lendTokens!: bigint
+
+    /**
+     * lend tokens locked as collateral, backed by the supplied amount
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    collateral!: bigint
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
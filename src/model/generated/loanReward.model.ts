@@ -0,0 +1,54 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {LoanRewardType} from "./_loanRewardType"
+import {LoanMarket} from "./loanMarket.model"
+import {Currency, fromJsonCurrency} from "./_currency"
+import {Height} from "./height.model"
+
+/**
+ * Lending incentive reward distributed to a borrower or supplier of a market
+ */
+@Entity_()
+export class LoanReward {
+    constructor(props?: Partial<LoanReward>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Column_("varchar", {length: 8, nullable: false})
+    type!: LoanRewardType
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    accountId!: string
+
+    @Index_()
+    @ManyToOne_(() => LoanMarket, {nullable: true})
+    market!: LoanMarket
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: false})
+    rewardCurrency!: Currency
+
+    @Column_("text", {nullable: false})
+    currencySymbol!: string
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    amountHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    amountUsdt!: number | undefined | null
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
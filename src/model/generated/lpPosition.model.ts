@@ -0,0 +1,66 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {PoolType} from "./_poolType"
+import {Currency, fromJsonCurrency} from "./_currency"
+import {PooledAmount} from "./_pooledAmount"
+import {Height} from "./height.model"
+
+/**
+ * LP tokens of an account in a DEX pool, as of the latest liquidity change or LP token transfer of the account
+ */
+@Entity_()
+export class LpPosition {
+    constructor(props?: Partial<LpPosition>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * account id and pool id, separated by a dash
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    accountId!: string
+
+    @Index_()
+    @Column_("varchar", {length: 8, nullable: false})
+    poolType!: PoolType
+
+    /**
+     * ordered currency pair for standard pools, pool index for stable pools
+     */
+    @Index_()
+    @Column_("text", {nullable: false})
+    poolId!: string
+
+    /**
+     * LpToken for standard pools, StableLpToken for stable pools
+     */
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: false})
+    lpToken!: Currency
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    balance!: bigint
+
+    /**
+     * fraction of the pool's LP token supply
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: false})
+    shareOfPool!: number
+
+    /**
+     * the account's share of each pool reserve
+     */
+    @Column_("jsonb", {transformer: {to: obj => obj.map((val: any) => val.toJSON()), from: obj => obj == null ? undefined : marshal.fromList(obj, val => new PooledAmount(undefined, marshal.nonNull(val)))}, nullable: false})
+    underlyingAmounts!: (PooledAmount)[]
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
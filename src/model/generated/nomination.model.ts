@@ -0,0 +1,46 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Collateral a nominator has staked behind a vault, updated on every deposit and withdrawal
+ */
+@Entity_()
+export class Nomination {
+    constructor(props?: Partial<Nomination>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * vault id and nominator account, separated by a dash
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    nominatorId!: string
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    amountHuman!: BigDecimal
+
+    /**
+     * last time the nominated amount changed
+     */
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
@@ -0,0 +1,31 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * A vault opting in to or out of accepting nominations
+ */
+@Entity_()
+export class NominationOptChange {
+    constructor(props?: Partial<NominationOptChange>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Column_("bool", {nullable: false})
+    optedIn!: boolean
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
@@ -5,6 +5,7 @@ import {Height} from "./height.model"
 import {OracleUpdateType} from "./_oracleUpdateType"
 import {Currency, fromJsonCurrency} from "./_currency"
 
+@Index_(["currencyKey", "timestamp"], {unique: false})
 @Entity_()
 export class OracleUpdate {
     constructor(props?: Partial<OracleUpdate>) {
@@ -30,6 +31,12 @@ export class OracleUpdate {
     @Column_("jsonb", {transformer: {to: obj => obj == null ? undefined : obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: true})
     typeKey!: Currency | undefined | null
 
+    /**
+     * string form of typeKey, as in PriceCandle
+     */
+    @Column_("text", {nullable: true})
+    currencyKey!: string | undefined | null
+
     @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
     updateValue!: bigint
 
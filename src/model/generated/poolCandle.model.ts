@@ -0,0 +1,101 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {PoolType} from "./_poolType"
+import {PooledToken, fromJsonPooledToken} from "./_pooledToken"
+import {PriceCandleInterval} from "./_priceCandleInterval"
+import {Height} from "./height.model"
+
+/**
+ * Swaps between two currencies of a DEX pool, aggregated per UTC hour or day
+ */
+@Index_(["poolId", "pair", "interval", "startTime"], {unique: false})
+@Entity_()
+export class PoolCandle {
+    constructor(props?: Partial<PoolCandle>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * pool id, currency pair, interval and start time in ms, separated by dashes
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("varchar", {length: 8, nullable: false})
+    poolType!: PoolType
+
+    /**
+     * ordered currency pair for standard pools, pool index for stable pools
+     */
+    @Column_("text", {nullable: false})
+    poolId!: string
+
+    /**
+     * the two traded currencies, ordered as for standard pool ids
+     */
+    @Column_("text", {nullable: false})
+    pair!: string
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonPooledToken(obj)}, nullable: false})
+    baseToken!: PooledToken
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonPooledToken(obj)}, nullable: false})
+    quoteToken!: PooledToken
+
+    @Column_("varchar", {length: 4, nullable: false})
+    interval!: PriceCandleInterval
+
+    @Column_("timestamp with time zone", {nullable: false})
+    startTime!: Date
+
+    /**
+     * execution prices in quote token per base token, in human units
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    open!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    high!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    low!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    close!: BigDecimal
+
+    /**
+     * traded amounts including fees, in either direction
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    baseVolume!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    baseVolumeHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    quoteVolume!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    quoteVolumeHuman!: BigDecimal
+
+    /**
+     * USDT value of the from amounts, or of the to amounts if the from currency has no price; trades without either are not counted, unset if no trade has a price
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    volumeUsdt!: number | undefined | null
+
+    @Column_("int4", {nullable: false})
+    tradeCount!: number
+
+    @Column_("timestamp with time zone", {nullable: false})
+    closeTimestamp!: Date
+
+    /**
+     * last update
+     */
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+}
@@ -0,0 +1,58 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {PoolType} from "./_poolType"
+import {PooledAmount} from "./_pooledAmount"
+import {Height} from "./height.model"
+
+/**
+ * Reserves of a DEX pool as of the end of a block with swaps, liquidity changes or LP token transfers, read from chain state
+ */
+@Entity_()
+export class PoolReserveSnapshot {
+    constructor(props?: Partial<PoolReserveSnapshot>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * pool id and block height, separated by a dash
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @Column_("varchar", {length: 8, nullable: false})
+    poolType!: PoolType
+
+    /**
+     * ordered currency pair for standard pools, pool index for stable pools
+     */
+    @Index_()
+    @Column_("text", {nullable: false})
+    poolId!: string
+
+    @Column_("jsonb", {transformer: {to: obj => obj.map((val: any) => val.toJSON()), from: obj => obj == null ? undefined : marshal.fromList(obj, val => new PooledAmount(undefined, marshal.nonNull(val)))}, nullable: false})
+    reserves!: (PooledAmount)[]
+
+    /**
+     * LP token supply
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    totalSupply!: bigint
+
+    /**
+     * total value of the reserves, unset if a reserve currency has no price
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    valueBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    valueUsdt!: number | undefined | null
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
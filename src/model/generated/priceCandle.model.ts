@@ -0,0 +1,97 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Currency, fromJsonCurrency} from "./_currency"
+import {PriceCandleInterval} from "./_priceCandleInterval"
+import {Height} from "./height.model"
+
+/**
+ * Oracle exchange rate feeds of a currency, from all oracles, aggregated per UTC hour or day
+ */
+@Index_(["currencyKey", "interval", "closeTimestamp"], {unique: false})
+@Index_(["currencySymbol", "interval", "startTime"], {unique: false})
+@Entity_()
+export class PriceCandle {
+    constructor(props?: Partial<PriceCandle>) {
+        Object.assign(this, props)
+    }
+
+    /**
+     * currency key, interval and start time in ms, separated by dashes
+     */
+    @PrimaryColumn_()
+    id!: string
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: false})
+    currency!: Currency
+
+    /**
+     * string form of the currency, as in LoanMarket ids
+     */
+    @Column_("text", {nullable: false})
+    currencyKey!: string
+
+    @Column_("text", {nullable: false})
+    currencySymbol!: string
+
+    @Column_("varchar", {length: 4, nullable: false})
+    interval!: PriceCandleInterval
+
+    @Column_("timestamp with time zone", {nullable: false})
+    startTime!: Date
+
+    /**
+     * prices of one unit of the currency in BTC
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    openBtc!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    highBtc!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    lowBtc!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    closeBtc!: BigDecimal
+
+    /**
+     * prices of one unit of the currency in USDT, as of the latest USDT feed; unset before the first one
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    openUsdt!: BigDecimal | undefined | null
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    highUsdt!: BigDecimal | undefined | null
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    lowUsdt!: BigDecimal | undefined | null
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    closeUsdt!: BigDecimal | undefined | null
+
+    /**
+     * oracle values (atomic units of the currency per satoshi, 18 decimals fixed point) of the first and last feed
+     */
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    openRaw!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    closeRaw!: bigint
+
+    @Column_("timestamp with time zone", {nullable: false})
+    openTimestamp!: Date
+
+    @Column_("timestamp with time zone", {nullable: false})
+    closeTimestamp!: Date
+
+    @Column_("int4", {nullable: false})
+    feedCount!: number
+
+    /**
+     * last update
+     */
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+}
@@ -0,0 +1,52 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_, OneToOne as OneToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {ReplaceRequest} from "./_replaceRequest"
+import {Vault} from "./vault.model"
+import {ReplacePeriod} from "./replacePeriod.model"
+import {ReplaceStatus} from "./_replaceStatus"
+import {ReplaceExecution} from "./replaceExecution.model"
+import {ReplaceCancellation} from "./replaceCancellation.model"
+
+/**
+ * Transfer of issued tokens from an old vault to a new vault, created when the new vault accepts
+ */
+@Entity_()
+export class Replace {
+    constructor(props?: Partial<Replace>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : new ReplaceRequest(undefined, obj)}, nullable: false})
+    request!: ReplaceRequest
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    oldVault!: Vault
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    newVault!: Vault
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    collateral!: bigint
+
+    @Column_("text", {nullable: false})
+    btcAddress!: string
+
+    @Index_()
+    @ManyToOne_(() => ReplacePeriod, {nullable: true})
+    period!: ReplacePeriod
+
+    @Index_()
+    @Column_("varchar", {length: 9, nullable: true})
+    status!: ReplaceStatus | undefined | null
+
+    @OneToOne_(() => ReplaceExecution)
+    execution!: ReplaceExecution | undefined | null
+
+    @OneToOne_(() => ReplaceCancellation)
+    cancellation!: ReplaceCancellation | undefined | null
+}
@@ -0,0 +1,25 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, OneToOne as OneToOne_, Index as Index_, JoinColumn as JoinColumn_, ManyToOne as ManyToOne_} from "typeorm"
+import {Replace} from "./replace.model"
+import {Height} from "./height.model"
+
+@Entity_()
+export class ReplaceExecution {
+    constructor(props?: Partial<ReplaceExecution>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_({unique: true})
+    @OneToOne_(() => Replace, {nullable: false})
+    @JoinColumn_()
+    replace!: Replace
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
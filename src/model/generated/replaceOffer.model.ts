@@ -0,0 +1,38 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+import {ReplaceOfferType} from "./_replaceOfferType"
+import {Height} from "./height.model"
+
+/**
+ * Issued tokens a vault offered for replacement, or withdrew from its offer
+ */
+@Entity_()
+export class ReplaceOffer {
+    constructor(props?: Partial<ReplaceOffer>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Column_("varchar", {length: 9, nullable: false})
+    type!: ReplaceOfferType
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    griefingCollateral!: bigint
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
@@ -0,0 +1,22 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {Height} from "./height.model"
+
+@Entity_()
+export class ReplacePeriod {
+    constructor(props?: Partial<ReplacePeriod>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+
+    @Column_("int4", {nullable: false})
+    value!: number
+}
@@ -0,0 +1,60 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import * as marshal from "./marshal"
+import {RewardAccrualType} from "./_rewardAccrualType"
+import {Vault} from "./vault.model"
+import {Currency, fromJsonCurrency} from "./_currency"
+import {Height} from "./height.model"
+
+/**
+ * Vault staking rewards distributed to a vault or withdrawn by one of its stakers
+ */
+@Entity_()
+export class RewardAccrual {
+    constructor(props?: Partial<RewardAccrual>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Column_("varchar", {length: 11, nullable: false})
+    type!: RewardAccrualType
+
+    /**
+     * withdrawing staker for withdrawals, null for distributions, which go to the whole staking pool of the vault
+     */
+    @Index_()
+    @Column_("text", {nullable: true})
+    accountId!: string | undefined | null
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : fromJsonCurrency(obj)}, nullable: false})
+    currency!: Currency
+
+    @Column_("text", {nullable: false})
+    currencySymbol!: string
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    amount!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    amountHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    amountBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    amountUsdt!: number | undefined | null
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
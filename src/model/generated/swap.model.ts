@@ -52,4 +52,31 @@ export class Swap {
 
     @Column_("jsonb", {transformer: {to: obj => obj.toJSON(), from: obj => obj == null ? undefined : new PooledAmount(undefined, obj)}, nullable: false})
     to!: PooledAmount
+
+    /**
+     * to amount per from amount, in human units; unset if either amount is zero
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    executionPrice!: BigDecimal | undefined | null
+
+    /**
+     * BTC and USDT values at trade time; unset if the currency has no price
+     */
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    fromBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    fromUsdt!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    toBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    toUsdt!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    feesBtc!: number | undefined | null
+
+    @Column_("numeric", {transformer: marshal.floatTransformer, nullable: true})
+    feesUsdt!: number | undefined | null
 }
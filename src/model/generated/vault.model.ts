@@ -1,7 +1,16 @@
-import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_} from "typeorm"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, Index as Index_, ManyToOne as ManyToOne_, OneToMany as OneToMany_} from "typeorm"
 import * as marshal from "./marshal"
 import {Currency, fromJsonCurrency} from "./_currency"
 import {Height} from "./height.model"
+import {VaultLiquidation} from "./vaultLiquidation.model"
+import {VaultBan} from "./vaultBan.model"
+import {VaultUndercollateralizationReport} from "./vaultUndercollateralizationReport.model"
+import {VaultBalanceSnapshot} from "./vaultBalanceSnapshot.model"
+import {VaultCollateralization} from "./vaultCollateralization.model"
+import {Nomination} from "./nomination.model"
+import {NominationOptChange} from "./nominationOptChange.model"
+import {CumulativeNominatedCollateral} from "./cumulativeNominatedCollateral.model"
+import {RewardAccrual} from "./rewardAccrual.model"
 
 @Entity_()
 export class Vault {
@@ -32,4 +41,31 @@ export class Vault {
     @Index_()
     @ManyToOne_(() => Height, {nullable: true})
     lastActivity!: Height | undefined | null
+
+    @OneToMany_(() => VaultLiquidation, e => e.vault)
+    liquidations!: VaultLiquidation[]
+
+    @OneToMany_(() => VaultBan, e => e.vault)
+    bans!: VaultBan[]
+
+    @OneToMany_(() => VaultUndercollateralizationReport, e => e.vault)
+    undercollateralizationReports!: VaultUndercollateralizationReport[]
+
+    @OneToMany_(() => VaultBalanceSnapshot, e => e.vault)
+    balanceSnapshots!: VaultBalanceSnapshot[]
+
+    @OneToMany_(() => VaultCollateralization, e => e.vault)
+    collateralizations!: VaultCollateralization[]
+
+    @OneToMany_(() => Nomination, e => e.vault)
+    nominations!: Nomination[]
+
+    @OneToMany_(() => NominationOptChange, e => e.vault)
+    nominationOptChanges!: NominationOptChange[]
+
+    @OneToMany_(() => CumulativeNominatedCollateral, e => e.vault)
+    nominatedCollateral!: CumulativeNominatedCollateral[]
+
+    @OneToMany_(() => RewardAccrual, e => e.vault)
+    rewardAccruals!: RewardAccrual[]
 }
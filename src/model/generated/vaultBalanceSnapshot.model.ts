@@ -0,0 +1,48 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Locked collateral and token balances of a vault, one snapshot per block it changed in
+ */
+@Entity_()
+export class VaultBalanceSnapshot {
+    constructor(props?: Partial<VaultBalanceSnapshot>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    lockedCollateral!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    lockedCollateralHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    issuedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    issuedTokensHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    toBeIssuedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    toBeRedeemedTokens!: bigint
+}
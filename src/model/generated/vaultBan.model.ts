@@ -0,0 +1,30 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Temporary ban of a vault, e.g. after failing to execute a redeem
+ */
+@Entity_()
+export class VaultBan {
+    constructor(props?: Partial<VaultBan>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Column_("int4", {nullable: false})
+    bannedUntil!: number
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
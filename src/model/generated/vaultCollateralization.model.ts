@@ -0,0 +1,45 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Collateralization of a vault, recomputed when its balances or its collateral price change
+ */
+@Entity_()
+export class VaultCollateralization {
+    constructor(props?: Partial<VaultCollateralization>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Index_()
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    lockedCollateral!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    issuedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    collateralValueBtc!: BigDecimal
+
+    /**
+     * Collateral value divided by issued tokens, null while the vault has nothing issued
+     */
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: true})
+    collateralizationRatio!: BigDecimal | undefined | null
+}
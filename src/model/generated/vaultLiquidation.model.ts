@@ -0,0 +1,50 @@
+import {BigDecimal} from "@subsquid/big-decimal"
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import * as marshal from "./marshal"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Liquidation of an undercollateralized vault by VaultRegistry
+ */
+@Entity_()
+export class VaultLiquidation {
+    constructor(props?: Partial<VaultLiquidation>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    issuedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    toBeIssuedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    toBeRedeemedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    toBeReplacedTokens!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    backingCollateral!: bigint
+
+    @Column_("numeric", {transformer: marshal.bigdecimalTransformer, nullable: false})
+    backingCollateralHuman!: BigDecimal
+
+    @Column_("numeric", {transformer: marshal.bigintTransformer, nullable: false})
+    replaceCollateral!: bigint
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
@@ -0,0 +1,31 @@
+import {Entity as Entity_, Column as Column_, PrimaryColumn as PrimaryColumn_, ManyToOne as ManyToOne_, Index as Index_} from "typeorm"
+import {Vault} from "./vault.model"
+import {Height} from "./height.model"
+
+/**
+ * Successful report of an undercollateralized vault, which liquidates the vault
+ */
+@Entity_()
+export class VaultUndercollateralizationReport {
+    constructor(props?: Partial<VaultUndercollateralizationReport>) {
+        Object.assign(this, props)
+    }
+
+    @PrimaryColumn_()
+    id!: string
+
+    @Index_()
+    @ManyToOne_(() => Vault, {nullable: true})
+    vault!: Vault
+
+    @Index_()
+    @Column_("text", {nullable: false})
+    reporter!: string
+
+    @Index_()
+    @ManyToOne_(() => Height, {nullable: true})
+    height!: Height
+
+    @Column_("timestamp with time zone", {nullable: false})
+    timestamp!: Date
+}
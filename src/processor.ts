@@ -13,9 +13,15 @@ import {
 import { Store, TypeormDatabase } from "@subsquid/typeorm-store";
 import assert from "assert";
 import {
+    acceptReplace,
+    banVault,
     cancelIssue,
     cancelRedeem,
+    cancelReplace,
     decreaseLockedCollateral,
+    decreaseTokens,
+    decreaseToBeIssuedTokens,
+    decreaseToBeRedeemedTokens,
     dexGeneralAssetSwap,
     dexGeneralLiquidityAdded,
     dexGeneralLiquidityRemoved,
@@ -24,21 +30,47 @@ import {
     dexStableNewSwapFee,
     dexStableLiquidityAdded,
     dexStableLiquidityRemoved,
+    distributeVaultReward,
     executeIssue,
     executeRedeem,
+    executeReplace,
     feedValues,
     findAndUpdateExpiredRequests,
     increaseLockedCollateral,
+    increaseToBeIssuedTokens,
+    increaseToBeRedeemedTokens,
     issuePeriodChange,
+    issueTokens,
+    liquidateVault,
+    lpTokenTransfer,
     redeemPeriodChange,
+    redeemTokens,
+    redeemTokensLiquidatedVault,
+    redeemTokensPremium,
     registerVault,
+    replacePeriodChange,
     requestIssue,
     requestRedeem,
+    requestReplace,
     setStorage,
+    storeIssuePayment,
     storeMainChainHeader,
+    storeRedeemPayment,
+    storeUndercollateralizationReport,
     updateActiveBlock,
+    updateVaultActivity,
+    updateLoanHealthFactors,
+    updateVaultCollateralizations,
+    withdrawReplace,
+    withdrawVaultReward,
 } from "./mappings";
 import { deposit, withdraw } from "./mappings/event/escrow";
+import {
+    depositNominationCollateral,
+    nominationOptIn,
+    nominationOptOut,
+    withdrawNominationCollateral,
+} from "./mappings/event/nomination";
 import { 
     tokensTransfer,
     tokensDeposited,
@@ -64,7 +96,8 @@ import {
     withdrawCollateral,
     withdrawDeposit,
     accrueInterest, 
-    liquidateLoan
+    liquidateLoan,
+    lendTokenTransfer
 } from "./mappings/event/loans";
 import { getCirculatingSupplyProcessRange } from "./mappings/utils/cumulativeCirculatingSupply";
 
@@ -85,6 +118,33 @@ const eventArgsData: eventArgsData = {
 // only process events after that point.
 const circulatingSupplyArgs = {...eventArgsData, ...getCirculatingSupplyProcessRange()};
 
+const callSignerData: { data: { extrinsic: { signature: true } } } = {
+    data: {
+        extrinsic: { signature: true },
+    },
+};
+
+// signed calls only a vault (or its relayer) would submit, used to track vault activity
+const VAULT_ACTIVITY_CALLS: string[] = [
+    "BTCRelay.store_block_header",
+    "Fee.withdraw_rewards",
+    "Issue.execute_issue",
+    "Nomination.deposit_collateral",
+    "Nomination.opt_in_to_nomination",
+    "Nomination.opt_out_of_nomination",
+    "Nomination.withdraw_collateral",
+    "Redeem.execute_redeem",
+    "Redeem.self_redeem",
+    "Replace.accept_replace",
+    "Replace.execute_replace",
+    "Replace.request_replace",
+    "Replace.withdraw_replace",
+    "VaultRegistry.accept_new_issues",
+    "VaultRegistry.register_public_key",
+    "VaultRegistry.register_vault",
+    "VaultRegistry.set_custom_secure_threshold",
+];
+
 // initialise a cache with all the foreign assets
 cacheForeignAssets();
 
@@ -110,6 +170,12 @@ const processor = new SubstrateBatchProcessor()
     .addEvent("Redeem.ExecuteRedeem", eventArgsData)
     .addEvent("Redeem.RequestRedeem", eventArgsData)
     .addEvent("Redeem.RedeemPeriodChange", eventArgsData)
+    .addEvent("Replace.RequestReplace", eventArgsData)
+    .addEvent("Replace.WithdrawReplace", eventArgsData)
+    .addEvent("Replace.AcceptReplace", eventArgsData)
+    .addEvent("Replace.ExecuteReplace", eventArgsData)
+    .addEvent("Replace.CancelReplace", eventArgsData)
+    .addEvent("Replace.ReplacePeriodChange", eventArgsData)
     .addEvent("Security.UpdateActiveBlock", eventArgsData)
     .addEvent("Tokens.Transfer", eventArgsData)
     .addEvent("Tokens.Deposited", circulatingSupplyArgs)
@@ -134,6 +200,23 @@ const processor = new SubstrateBatchProcessor()
     .addEvent("VaultRegistry.RegisterVault", eventArgsData)
     .addEvent("VaultRegistry.IncreaseLockedCollateral", eventArgsData)
     .addEvent("VaultRegistry.DecreaseLockedCollateral", eventArgsData)
+    .addEvent("VaultRegistry.LiquidateVault", eventArgsData)
+    .addEvent("VaultRegistry.BanVault", eventArgsData)
+    .addEvent("VaultRegistry.IncreaseToBeIssuedTokens", eventArgsData)
+    .addEvent("VaultRegistry.DecreaseToBeIssuedTokens", eventArgsData)
+    .addEvent("VaultRegistry.IssueTokens", eventArgsData)
+    .addEvent("VaultRegistry.IncreaseToBeRedeemedTokens", eventArgsData)
+    .addEvent("VaultRegistry.DecreaseToBeRedeemedTokens", eventArgsData)
+    .addEvent("VaultRegistry.RedeemTokens", eventArgsData)
+    .addEvent("VaultRegistry.RedeemTokensPremium", eventArgsData)
+    .addEvent("VaultRegistry.RedeemTokensLiquidatedVault", eventArgsData)
+    .addEvent("VaultRegistry.DecreaseTokens", eventArgsData)
+    .addEvent("Nomination.DepositCollateral", eventArgsData)
+    .addEvent("Nomination.WithdrawCollateral", eventArgsData)
+    .addEvent("Nomination.NominationOptIn", eventArgsData)
+    .addEvent("Nomination.NominationOptOut", eventArgsData)
+    .addEvent("VaultStaking.DistributeReward", eventArgsData)
+    .addEvent("VaultStaking.WithdrawReward", eventArgsData)
     .addCall("System.set_storage", {
         data: {
             call: true,
@@ -150,7 +233,39 @@ const processor = new SubstrateBatchProcessor()
                 call: true,
             },
         },
-    });
+    })
+    .addCall("Fee.withdraw_rewards", callSignerData)
+    .addCall("Issue.execute_issue", {
+        data: {
+            call: true,
+            extrinsic: { signature: true },
+        },
+    })
+    .addCall("Nomination.deposit_collateral", callSignerData)
+    .addCall("Nomination.opt_in_to_nomination", callSignerData)
+    .addCall("Nomination.opt_out_of_nomination", callSignerData)
+    .addCall("Nomination.withdraw_collateral", callSignerData)
+    .addCall("Redeem.execute_redeem", {
+        data: {
+            call: true,
+            extrinsic: { signature: true },
+        },
+    })
+    .addCall("Redeem.self_redeem", callSignerData)
+    .addCall("Replace.accept_replace", callSignerData)
+    .addCall("Replace.execute_replace", callSignerData)
+    .addCall("Replace.request_replace", callSignerData)
+    .addCall("Replace.withdraw_replace", callSignerData)
+    .addCall("VaultRegistry.accept_new_issues", callSignerData)
+    .addCall("VaultRegistry.register_public_key", callSignerData)
+    .addCall("VaultRegistry.register_vault", callSignerData)
+    .addCall("VaultRegistry.report_undercollateralized_vault", {
+        data: {
+            call: true,
+            extrinsic: { signature: true },
+        },
+    })
+    .addCall("VaultRegistry.set_custom_secure_threshold", callSignerData);
 
 export type Item = BatchProcessorItem<typeof processor>;
 export type EventItem = Exclude<
@@ -175,6 +290,16 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
         totalTime: number;
     }>;
 
+    type CallMappingsList = Array<{
+        filter: { names: string[] };
+        mapping: (
+            ctx: Ctx,
+            block: SubstrateBlock,
+            item: CallItem,
+            entityBuffer: EntityBuffer
+        ) => Promise<void>;
+    }>;
+
     const entityBuffer = new EntityBuffer();
 
     // helper function to loop through the events only once,
@@ -226,6 +351,27 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
         );
     };
 
+    const processCalls = async (mappings: CallMappingsList) => {
+        for (const block of ctx.blocks) {
+            for (const item of block.items) {
+                if (item.kind === "call" && item.name !== "*") {
+                    for (const mapping of mappings) {
+                        if (mapping.filter.names.includes(item.name)) {
+                            await mapping.mapping(
+                                ctx,
+                                block.header,
+                                item,
+                                entityBuffer
+                            );
+                        }
+                    }
+                }
+            }
+        }
+
+        await entityBuffer.flush(ctx.store);
+    };
+
     // pre-stage
     // first we process all active block heights to immediately populate the
     // in-memory cache which eliminates a huge amount of redundant database lookups
@@ -243,7 +389,6 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
     // - oracle events
     // - vault registrations and collateral changes
     // - btcrelay events
-    //TODO    // 6. vault activity probe
     // - issue period
     // - redeem period
     // - escrow
@@ -318,6 +463,11 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             mapping: redeemPeriodChange,
             totalTime: 0,
         },
+        {
+            filter: { name: "Replace.ReplacePeriodChange" },
+            mapping: replacePeriodChange,
+            totalTime: 0,
+        },
         {
             filter: { name: "Escrow.Deposit" },
             mapping: deposit,
@@ -327,7 +477,14 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             filter: { name: "Escrow.Withdraw" },
             mapping: withdraw,
             totalTime: 0,
-        },
+        }
+    ]);
+
+    // dex stage
+    // after the first stage is saved, so that the batch's oracle updates price:
+    // - dex fee changes, swaps and liquidity changes, and pool reserve snapshots
+    // - lp token transfers
+    await processConcurrently([
         {
             filter: { name: "DexStable.NewAdminFee" },
             mapping: dexStableNewAdminFee,
@@ -367,13 +524,34 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             filter: { name: "DexStable.RemoveLiquidity" },
             mapping: dexStableLiquidityRemoved,
             totalTime: 0
+        },
+        {
+            filter: { name: "Tokens.Transfer" },
+            mapping: lpTokenTransfer,
+            totalTime: 0
         }
     ]);
 
+    // vault activity and undercollateralization reports - depend on vault registrations
+    await processCalls([
+        {
+            filter: { names: VAULT_ACTIVITY_CALLS },
+            mapping: updateVaultActivity,
+        },
+        {
+            filter: { names: ["VaultRegistry.report_undercollateralized_vault"] },
+            mapping: storeUndercollateralizationReport,
+        },
+    ]);
+
     // second stage
     // after the above are saved, we process:
     // - issue requests - depends on vault registrations
     // - redeem requests - depends on vault registrations
+    // - replace offers and acceptances - depend on vault registrations
+    // - vault liquidations and bans - depend on vault registrations
+    // - vault balance snapshots - depend on vault registrations
+    // - vault collateralizations - depend on oracle updates and balance snapshots
     await processConcurrently([
         {
             filter: { name: "Issue.RequestIssue" },
@@ -385,6 +563,123 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             mapping: requestRedeem,
             totalTime: 0,
         },
+        {
+            filter: { name: "Replace.RequestReplace" },
+            mapping: requestReplace,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Replace.WithdrawReplace" },
+            mapping: withdrawReplace,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Replace.AcceptReplace" },
+            mapping: acceptReplace,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.LiquidateVault" },
+            mapping: liquidateVault,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.BanVault" },
+            mapping: banVault,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.IncreaseToBeIssuedTokens" },
+            mapping: increaseToBeIssuedTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.DecreaseToBeIssuedTokens" },
+            mapping: decreaseToBeIssuedTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.IssueTokens" },
+            mapping: issueTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.IncreaseToBeRedeemedTokens" },
+            mapping: increaseToBeRedeemedTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.DecreaseToBeRedeemedTokens" },
+            mapping: decreaseToBeRedeemedTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.RedeemTokens" },
+            mapping: redeemTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.RedeemTokensPremium" },
+            mapping: redeemTokensPremium,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.RedeemTokensLiquidatedVault" },
+            mapping: redeemTokensLiquidatedVault,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultRegistry.DecreaseTokens" },
+            mapping: decreaseTokens,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Nomination.DepositCollateral" },
+            mapping: depositNominationCollateral,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Nomination.WithdrawCollateral" },
+            mapping: withdrawNominationCollateral,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Nomination.NominationOptIn" },
+            mapping: nominationOptIn,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Nomination.NominationOptOut" },
+            mapping: nominationOptOut,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultStaking.DistributeReward" },
+            mapping: distributeVaultReward,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "VaultStaking.WithdrawReward" },
+            mapping: withdrawVaultReward,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Oracle.FeedValues" },
+            mapping: updateVaultCollateralizations,
+            totalTime: 0,
+        },
+    ]);
+
+    // btc payments of executed issues and redeems - depend on requests and relayed blocks
+    await processCalls([
+        {
+            filter: { names: ["Issue.execute_issue"] },
+            mapping: storeIssuePayment,
+        },
+        {
+            filter: { names: ["Redeem.execute_redeem"] },
+            mapping: storeRedeemPayment,
+        },
     ]);
 
     // third stage
@@ -392,6 +687,7 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
     // - issue executions - depends on issue requests
     // - redeem cancellation - depends on redeem requests
     // - redeem execution - depends on redeem requests
+    // - replace cancellation and execution - depend on replace acceptances
     // Executions also update the respective cumulative volumes (TVL).
     await processConcurrently([
         {
@@ -414,6 +710,16 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             mapping: executeRedeem,
             totalTime: 0,
         },
+        {
+            filter: { name: "Replace.CancelReplace" },
+            mapping: cancelReplace,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Replace.ExecuteReplace" },
+            mapping: executeReplace,
+            totalTime: 0,
+        },
     ]);
 
     // add Loan Market processing
@@ -482,6 +788,16 @@ processor.run(new TypeormDatabase({ stateSchema: "interbtc" }), async (ctx) => {
             mapping: liquidateLoan,
             totalTime: 0,
         },
+        {
+            filter: { name: "Tokens.Transfer" },
+            mapping: lendTokenTransfer,
+            totalTime: 0,
+        },
+        {
+            filter: { name: "Oracle.FeedValues" },
+            mapping: updateLoanHealthFactors,
+            totalTime: 0,
+        },
         {
             filter: { name: "Loans.InterestAccrued" },
             mapping: accrueInterest,
@@ -1,11 +1,14 @@
 import { BigDecimal } from "@subsquid/big-decimal";
 import { NativeToken, PooledAmount, Swap, Token } from "../../model";
 import * as mapping_utils from "../../mappings/_utils";
+import { testHelpers as interBtcApiTestHelpers } from "../../mappings/utils/interBtcApi";
 import {
     testHelpers,
     DexVolumesResolver,
     DexVolumesByPoolArgs,
-    DexAmount
+    DexAmount,
+    DexTradingVolumesByAccount,
+    StableDexVolumesByPoolArgs
 } from "./dexVolumesResolver";
 
 // tests for the custom resolver arguments class
@@ -385,4 +388,163 @@ describe("DexVolumesResolver", () => {
             await expect(dexVolumeResolver.getGeneralDexTradingVolumesByPool(argsNo2nd)).rejects.toThrow(Error);
         });
     });
-});
\ No newline at end of file
+
+    describe("accumulateStableDexVolumeSums", () => {
+        it("sums up in/out amounts per pool token, in pool order", () => {
+            const ksmToken = new NativeToken({ token: Token.KSM });
+
+            const actualSums = testHelpers.accumulateStableDexVolumeSums(
+                [ksmToken, ibtcToken, dotToken],
+                [swapDOTinIBTCout, swapIBTCinDOTout, swapDOTinIBTCout]
+            );
+
+            expect(actualSums).toEqual([
+                { token: ksmToken, in: 0n, out: 0n },
+                { token: ibtcToken, in: ibtcAmount, out: 2n * ibtcAmount },
+                { token: dotToken, in: 2n * dotAmount, out: dotAmount },
+            ]);
+        });
+
+        it("appends traded tokens missing from the pool tokens", () => {
+            const actualSums = testHelpers.accumulateStableDexVolumeSums([], [swapDOTinIBTCout]);
+
+            expect(actualSums).toEqual([
+                { token: dotToken, in: dotAmount, out: 0n },
+                { token: ibtcToken, in: 0n, out: ibtcAmount },
+            ]);
+        });
+    });
+
+    describe("getStableDexTradingVolumesByPool", () => {
+        const findBy = jest.fn();
+        const getRepository = jest.fn();
+        const mockTxManager = () => Promise.resolve({ getRepository } as any);
+
+        // fakes the DexStable.Pools storage codec of a base pool with the given native tokens
+        const pools = jest.fn();
+        const fakeBasePool = (tokens: string[]) => ({
+            isNone: false,
+            unwrap: () => ({
+                isBase: true,
+                asBase: {
+                    currencyIds: tokens.map((token) => ({ isToken: true, asToken: { type: token } })),
+                },
+            }),
+        });
+
+        beforeAll(() => {
+            interBtcApiTestHelpers.unsafeSetInterBtcApi({
+                api: { isConnected: true, query: { dexStable: { pools } } },
+            });
+        });
+
+        afterAll(() => {
+            interBtcApiTestHelpers.unsafeSetInterBtcApi(undefined);
+        });
+
+        beforeEach(() => {
+            getRepository.mockReturnValue({ findBy });
+            // mock tickerFromCurrency, return token string if it is a token, "FOO" otherwise
+            jest.spyOn(mapping_utils, "tickerFromCurrency").mockImplementation((currency) => Promise.resolve((currency as any).token || "FOO"));
+            // mock convertToHuman to simply return original amount
+            jest.spyOn(mapping_utils, "convertAmountToHuman").mockImplementation((_currency, amount) => Promise.resolve(BigDecimal(amount)));
+        });
+
+        afterEach(() => {
+            jest.resetAllMocks();
+        });
+
+        it("should return volumes for every pool token by numeric pool id", async () => {
+            pools.mockResolvedValue(fakeBasePool(["Ibtc", "Dot"]));
+            findBy.mockResolvedValue([swapDOTinIBTCout]);
+            const dexVolumeResolver = new DexVolumesResolver(mockTxManager);
+
+            const args = new StableDexVolumesByPoolArgs();
+            args.poolId = 1;
+
+            const actualVolumesByPool = await dexVolumeResolver.getStableDexTradingVolumesByPool(args);
+
+            expect(pools).toHaveBeenCalledWith(1);
+            expect(findBy.mock.calls[0][0]).toEqual(expect.objectContaining({ poolType: "Stable", poolId: "1" }));
+            expect(actualVolumesByPool.poolId).toEqual("1");
+            expect(actualVolumesByPool.poolType).toEqual("Stable");
+            expect(actualVolumesByPool.volumesIn.map((vol) => [vol.ticker, vol.amount])).toEqual([["IBTC", 0n], ["DOT", dotAmount]]);
+            expect(actualVolumesByPool.volumesOut.map((vol) => [vol.ticker, vol.amount])).toEqual([["IBTC", ibtcAmount], ["DOT", 0n]]);
+        });
+
+        it("should return untraded pool tokens of pools without reserve snapshots", async () => {
+            pools.mockResolvedValue(fakeBasePool(["Ksm", "Ibtc", "Dot"]));
+            findBy.mockResolvedValue([swapDOTinIBTCout]);
+            const dexVolumeResolver = new DexVolumesResolver(mockTxManager);
+
+            const args = new StableDexVolumesByPoolArgs();
+            args.poolId = 2;
+
+            const actualVolumesByPool = await dexVolumeResolver.getStableDexTradingVolumesByPool(args);
+
+            // only swaps are read from the store, the pool tokens come from chain storage
+            expect(getRepository).toHaveBeenCalledTimes(1);
+            expect(getRepository).toHaveBeenCalledWith(Swap);
+            expect(actualVolumesByPool.volumesIn.map((vol) => [vol.ticker, vol.amount])).toEqual([["KSM", 0n], ["IBTC", 0n], ["DOT", dotAmount]]);
+            expect(actualVolumesByPool.volumesOut.map((vol) => [vol.ticker, vol.amount])).toEqual([["KSM", 0n], ["IBTC", ibtcAmount], ["DOT", 0n]]);
+        });
+
+        it("should return no volumes for unknown pools without swaps", async () => {
+            pools.mockResolvedValue({ isNone: true });
+            findBy.mockResolvedValue([]);
+            const dexVolumeResolver = new DexVolumesResolver(mockTxManager);
+
+            const args = new StableDexVolumesByPoolArgs();
+            args.poolId = 42;
+
+            const actualVolumesByPool = await dexVolumeResolver.getStableDexTradingVolumesByPool(args);
+
+            expect(actualVolumesByPool.volumesIn).toEqual([]);
+            expect(actualVolumesByPool.volumesOut).toEqual([]);
+        });
+    });
+
+    describe("sumUsdtVolumeAndFees", () => {
+        it("should use the to value if the from currency has no price", () => {
+            const pricedSwap = Object.assign(new Swap(), swapDOTinIBTCout, { fromUsdt: 10, toUsdt: 9.9, feesUsdt: 0.03 });
+            const fromUnpricedSwap = Object.assign(new Swap(), swapIBTCinDOTout, { toUsdt: 5, feesUsdt: null });
+            const unpricedSwap = Object.assign(new Swap(), swapDOTinIBTCout);
+
+            const actualSums = testHelpers.sumUsdtVolumeAndFees([pricedSwap, fromUnpricedSwap, unpricedSwap]);
+
+            expect(actualSums).toEqual({ volumeUsdt: 15, feesUsdt: 0.03 });
+        });
+    });
+
+    describe("getDexTradingVolumesByAccount", () => {
+        const findBy = jest.fn();
+        const mockTxManager = () => Promise.resolve({
+            getRepository: () => ({ findBy })
+        } as any);
+
+        afterEach(() => {
+            jest.resetAllMocks();
+        });
+
+        it("should sum USDT volumes and fees of the account's swaps", async () => {
+            findBy.mockResolvedValue([
+                Object.assign(new Swap(), swapDOTinIBTCout, { fromUsdt: 10, feesUsdt: 0.03 }),
+                Object.assign(new Swap(), swapIBTCinDOTout, { fromUsdt: 20, feesUsdt: 0.06 }),
+            ]);
+            const dexVolumeResolver = new DexVolumesResolver(mockTxManager);
+            const endDate = new Date("2023-01-08T00:00:00Z");
+
+            const actualVolumes = await dexVolumeResolver.getDexTradingVolumesByAccount("foo", undefined, endDate);
+
+            expect(findBy.mock.calls[0][0]).toEqual(expect.objectContaining({ fromAccount: "foo" }));
+            expect(actualVolumes).toEqual(new DexTradingVolumesByAccount({
+                accountId: "foo",
+                startDate: new Date("2023-01-01T00:00:00Z"),
+                endDate,
+                tradeCount: 2,
+                volumeUsdt: 30,
+                feesUsdt: 0.09,
+            }));
+        });
+    });
+});
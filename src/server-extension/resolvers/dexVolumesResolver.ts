@@ -1,8 +1,11 @@
 import { BigDecimal } from '@subsquid/big-decimal';
-import { Arg, Args, ArgsType, Field, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import { Arg, Args, ArgsType, Field, Float, Int, ObjectType, Query, Resolver } from 'type-graphql';
 import { type EntityManager, Between } from 'typeorm';
 import { PoolType, PooledAmount, PooledToken, Swap, Token, fromJsonPooledToken } from '../../model';
-import { inferGeneralPoolId } from '../../mappings/utils/pools';
+import { currencyId } from '../../mappings/encoding';
+import { inferGeneralPoolId } from '../../mappings/utils/currencyOrder';
+import { getInterBtcApi } from '../../mappings/utils/interBtcApi';
+import { getSwapVolumeUsdt, isPooledToken } from '../../mappings/utils/pools';
 import { isEqual } from 'lodash';
 import { convertAmountToHuman, tickerFromCurrency } from '../../mappings/_utils';
 import { IsOptional } from 'class-validator';
@@ -46,6 +49,37 @@ export class DexTradingVolumesByPool {
 
     @Field(() => [DexAmount], {nullable: false})
     volumesOut!: DexAmount[];
+
+    @Field(() => Float, {nullable: false, description: "USDT value of all swaps; swaps without a price are not counted"})
+    volumeUsdt!: number;
+
+    @Field(() => Float, {nullable: false, description: "USDT value of all fees; fees without a price are not counted"})
+    feesUsdt!: number;
+}
+
+@ObjectType()
+export class DexTradingVolumesByAccount {
+    constructor(props?: Partial<DexTradingVolumesByAccount>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => Date, {nullable: false})
+    startDate!: Date;
+
+    @Field(() => Date, {nullable: false})
+    endDate!: Date;
+
+    @Field(() => Int, {nullable: false})
+    tradeCount!: number;
+
+    @Field(() => Float, {nullable: false, description: "USDT value of all swaps; swaps without a price are not counted"})
+    volumeUsdt!: number;
+
+    @Field(() => Float, {nullable: false, description: "USDT value of all fees; fees without a price are not counted"})
+    feesUsdt!: number;
 }
 
 type TokenWithAmounts = {
@@ -101,6 +135,14 @@ const buildNewDexVolumesPair = async (
     return { in: [t1In, t2In],  out: [t1Out, t2Out] };
 }
 
+const buildNewDexVolumesList = async (
+    sums: TokenWithAmounts[]
+): Promise<{ in: DexAmount[], out: DexAmount[] }> => {
+    const volumes = await Promise.all(sums.map(buildTokenInOutVolumes));
+
+    return { in: volumes.map((volume) => volume.in), out: volumes.map((volume) => volume.out) };
+}
+
 const queryEntityManagerForDexGeneralSwaps = async (
     tx: () => Promise<EntityManager>,
     poolId: string,
@@ -117,6 +159,55 @@ const queryEntityManagerForDexGeneralSwaps = async (
         });
 };
 
+const queryEntityManagerForDexStableSwaps = async (
+    tx: () => Promise<EntityManager>,
+    poolId: number,
+    startDate: Date,
+    endDate: Date
+): Promise<Swap[]> => {
+    const manager = await tx();
+
+    return await manager.getRepository(Swap)
+        .findBy({
+            poolType: PoolType.Stable,
+            poolId: String(poolId),
+            timestamp: Between(startDate, endDate)
+        });
+};
+
+// the api's storage queries are untyped here, rawCurrencyId is an InterbtcPrimitivesCurrencyId codec
+const toPooledToken = (rawCurrencyId: any): PooledToken => {
+    let currency;
+    if (rawCurrencyId.isToken) {
+        const token = rawCurrencyId.asToken.type.toUpperCase() as keyof typeof Token;
+        currency = currencyId.encode({ __kind: "Token", value: { __kind: token } });
+    } else if (rawCurrencyId.isForeignAsset) {
+        currency = currencyId.encode({ __kind: "ForeignAsset", value: rawCurrencyId.asForeignAsset.toNumber() });
+    } else if (rawCurrencyId.isLendToken) {
+        currency = currencyId.encode({ __kind: "LendToken", value: rawCurrencyId.asLendToken.toNumber() });
+    } else if (rawCurrencyId.isStableLpToken) {
+        currency = currencyId.encode({ __kind: "StableLpToken", value: rawCurrencyId.asStableLpToken.toNumber() });
+    }
+    if (currency === undefined || !isPooledToken(currency)) {
+        throw new Error(`Unexpected currency type ${rawCurrencyId.type} in stable pool`);
+    }
+    return currency;
+};
+
+// the pool's currencies in pool index order, from DexStable.Pools storage;
+// for meta pools this includes the base pool's LP token
+const queryStablePoolTokens = async (poolId: number): Promise<PooledToken[]> => {
+    const interBtcApi = await getInterBtcApi();
+    const maybePool = await interBtcApi.api.query.dexStable.pools(poolId);
+    if (maybePool.isNone) {
+        return [];
+    }
+
+    const pool = maybePool.unwrap();
+    const basePool = pool.isBase ? pool.asBase : pool.asMeta.info;
+    return basePool.currencyIds.map(toPooledToken);
+};
+
 // assumes all swaps are between two specific tokens (ie. not a multi-ccy pool, just swap pairs)
 const accumulateDexVolumeSums = (
     token1: PooledToken,
@@ -155,13 +246,61 @@ const accumulateDexVolumeSums = (
     }, startingValue);
 }
 
+// sums up in/out amounts per token for pools with any number of tokens;
+// tokens traded but not in the given list are appended in order of appearance
+const accumulateStableDexVolumeSums = (
+    tokens: PooledToken[],
+    swaps: Swap[],
+): TokenWithAmounts[] => {
+    const sums: TokenWithAmounts[] = tokens.map((token) => ({ token, in: 0n, out: 0n }));
+    const sumsFor = (token: PooledToken): TokenWithAmounts => {
+        let tokenSums = sums.find((candidate) => isEqual(candidate.token, token));
+        if (tokenSums === undefined) {
+            tokenSums = { token, in: 0n, out: 0n };
+            sums.push(tokenSums);
+        }
+        return tokenSums;
+    };
+
+    for (const swapEntity of swaps) {
+        sumsFor(swapEntity.from.token).in += swapEntity.from.amount;
+        sumsFor(swapEntity.to.token).out += swapEntity.to.amount;
+    }
+
+    return sums;
+}
+
+// total USDT values of the swaps and their fees
+const sumUsdtVolumeAndFees = (swaps: Swap[]): { volumeUsdt: number, feesUsdt: number } =>
+    swaps.reduce((acc, swapEntity) => {
+        acc.volumeUsdt += getSwapVolumeUsdt(swapEntity) ?? 0;
+        acc.feesUsdt += swapEntity.feesUsdt ?? 0;
+        return acc;
+    }, { volumeUsdt: 0, feesUsdt: 0 });
+
+// defaults the end date to now and the start date to 7 days before the end date
+const defaultDateRange = (startDate?: Date, endDate?: Date): [Date, Date] => {
+    const end = endDate || new Date();
+    if (startDate) {
+        return [startDate, end];
+    }
+    // clone end date, then mutate start date
+    const start = new Date(end);
+    start.setDate(start.getDate() - 7);
+    return [start, end];
+}
+
 /**
  * Testhelper export for better testing/mocking, use at your own risk
  */
 export const testHelpers = {
     accumulateDexVolumeSums,
+    accumulateStableDexVolumeSums,
+    sumUsdtVolumeAndFees,
     queryEntityManagerForDexGeneralSwaps,
+    queryEntityManagerForDexStableSwaps,
     buildNewDexVolumesPair,
+    buildNewDexVolumesList,
 };
 
 // input structure that's compatible with the fromJsonPooledToken method
@@ -278,6 +417,29 @@ export class DexVolumesByPoolArgs {
     }
 }
 
+@ArgsType()
+export class StableDexVolumesByPoolArgs {
+    @Field(() => Int, {
+        nullable: false,
+        description: "stable pool id"
+    })
+    poolId!: number;
+
+    @Field(() => Date, {
+        nullable: true,
+        description: "(optional) startDate in iso 8061 format. Defaults to 1 week before endDate."
+    })
+    @IsOptional()
+    startDate?: Date;
+
+    @Field(() => Date, {
+        nullable: true,
+        description: "(optional) endDate in ISO 8061 format. Defaults to current date/time."
+    })
+    @IsOptional()
+    endDate?: Date;
+}
+
 @Resolver()
 export class DexVolumesResolver {
   constructor(private tx: () => Promise<EntityManager>) {}
@@ -298,18 +460,7 @@ export class DexVolumesResolver {
 
     const generalPoolId = inferGeneralPoolId(currency1, currency2);
 
-    // default to now if not set
-    if (!endDate) {
-        endDate = new Date();
-    }
-
-    // default to end date minus 7 days if not set
-    if (!startDate) {
-        // clone end date
-        startDate = new Date(endDate);
-        // mutate start date
-        startDate.setDate(startDate.getDate() - 7);
-    }
+    [startDate, endDate] = defaultDateRange(startDate, endDate);
 
     const swapsList = await queryEntityManagerForDexGeneralSwaps(
         this.tx,
@@ -328,8 +479,68 @@ export class DexVolumesResolver {
         endDate,
         volumesIn: volumes.in,
         volumesOut: volumes.out,
+        ...sumUsdtVolumeAndFees(swapsList),
     });
 
     return dexTradingVolumes;
   }
+
+  @Query(() => DexTradingVolumesByPool, {
+    description: "Fetch trading volumes for a stable dex pool by pool id, start and end date.\n"
+        + "Lists in/out volumes for every currency of the pool, in pool order. "
+        + "For meta pools, this includes the base pool's LP token."
+  })
+  async getStableDexTradingVolumesByPool(
+    @Args()
+    { poolId, startDate, endDate }: StableDexVolumesByPoolArgs,
+  ): Promise<DexTradingVolumesByPool> {
+    [startDate, endDate] = defaultDateRange(startDate, endDate);
+
+    const [poolTokens, swapsList] = await Promise.all([
+        queryStablePoolTokens(poolId),
+        queryEntityManagerForDexStableSwaps(this.tx, poolId, startDate, endDate),
+    ]);
+
+    const sums = accumulateStableDexVolumeSums(poolTokens, swapsList);
+    const volumes = await buildNewDexVolumesList(sums);
+
+    return new DexTradingVolumesByPool({
+        poolId: String(poolId),
+        poolType: PoolType.Stable,
+        startDate,
+        endDate,
+        volumesIn: volumes.in,
+        volumesOut: volumes.out,
+        ...sumUsdtVolumeAndFees(swapsList),
+    });
+  }
+
+  @Query(() => DexTradingVolumesByAccount, {
+    description: "Fetch the USDT value of trading volumes and fees of swaps from an account, over all dex pools, by start and end date."
+  })
+  async getDexTradingVolumesByAccount(
+    @Arg('accountId', { nullable: false, description: "account that sent the swaps" })
+    accountId: string,
+    @Arg('startDate', { nullable: true, description: "(optional) startDate in iso 8061 format. Defaults to 1 week before endDate." })
+    startDate?: Date,
+    @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8061 format. Defaults to current date/time." })
+    endDate?: Date
+  ): Promise<DexTradingVolumesByAccount> {
+    [startDate, endDate] = defaultDateRange(startDate, endDate);
+
+    const manager = await this.tx();
+    const swapsList = await manager.getRepository(Swap)
+        .findBy({
+            fromAccount: accountId,
+            timestamp: Between(startDate, endDate)
+        });
+
+    return new DexTradingVolumesByAccount({
+        accountId,
+        startDate,
+        endDate,
+        tradeCount: swapsList.length,
+        ...sumUsdtVolumeAndFees(swapsList),
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import "reflect-metadata";
+import { BigDecimal } from "@subsquid/big-decimal";
+import { EscrowLocker, EscrowLockResolver } from "./escrowLockResolver";
+
+describe("EscrowLockResolver", () => {
+    let fakeRows: any[] = [];
+    const fakeManager = {
+        query: jest.fn((_query: string, _params: never[]) => Promise.resolve(fakeRows))
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should map top locker rows", async () => {
+        fakeRows = [
+            {
+                account_id: "foo",
+                amount: "2000",
+                amount_human: "0.0000002",
+                unlock_height: 1100,
+                voting_power: "16000",
+            },
+        ];
+        const resolver = new EscrowLockResolver(fakeTx as any);
+
+        const actualResult = await resolver.topEscrowLockers(5);
+
+        expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [5]);
+        expect(actualResult).toEqual([
+            new EscrowLocker({
+                accountId: "foo",
+                amount: 2000n,
+                amountHuman: BigDecimal("0.0000002"),
+                unlockHeight: 1100,
+                votingPower: 16000n,
+            }),
+        ]);
+    });
+
+    it("should return the summed voting power at the given height", async () => {
+        fakeRows = [{ total: "17750" }];
+        const resolver = new EscrowLockResolver(fakeTx as any);
+
+        const actualResult = await resolver.totalVotingPower(250);
+
+        expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [250]);
+        expect(actualResult).toBe(17750n);
+    });
+});
@@ -0,0 +1,93 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import type { EntityManager } from 'typeorm';
+
+@ObjectType()
+export class EscrowLocker {
+    constructor(props?: Partial<EscrowLocker>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => BigInt, {nullable: false})
+    amount!: bigint;
+
+    @Field(() => BigDecimal, {nullable: false})
+    amountHuman!: BigDecimal;
+
+    @Field(() => Int, {nullable: false})
+    unlockHeight!: number;
+
+    @Field(() => BigInt, {nullable: false, description: "voting power at the latest indexed height"})
+    votingPower!: bigint;
+}
+
+type EscrowLockerRow = {
+    account_id: string,
+    amount: string,
+    amount_human: string,
+    unlock_height: number,
+    voting_power: string,
+}
+
+// latest lock per account, as of the given absolute height
+const latestLocksAtHeight = `
+    SELECT DISTINCT ON (escrow.account_id) escrow.*
+    FROM escrow_lock escrow
+    JOIN height ON height.id = escrow.height_id
+    WHERE height.absolute <= $1
+    ORDER BY escrow.account_id, height.absolute DESC`;
+
+// current locks, valued at the latest indexed height
+const topLockersQuery = `
+    SELECT account_id, amount, amount_human, unlock_height,
+        slope * GREATEST(unlock_height - (SELECT MAX(absolute) FROM height), 0) AS voting_power
+    FROM (
+        SELECT DISTINCT ON (account_id) *
+        FROM escrow_lock
+        ORDER BY account_id, timestamp DESC
+    ) latest
+    WHERE amount > 0
+    ORDER BY amount DESC
+    LIMIT $1`;
+
+const totalVotingPowerQuery = `
+    SELECT COALESCE(SUM(latest.slope * GREATEST(latest.unlock_height - $1, 0)), 0) AS total
+    FROM (${latestLocksAtHeight}) latest`;
+
+@Resolver()
+export class EscrowLockResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [EscrowLocker])
+    async topEscrowLockers(
+        @Arg('limit', () => Int, { nullable: true, defaultValue: 10, description: "Number of accounts to return, by locked amount" })
+        limit: number
+    ): Promise<EscrowLocker[]> {
+        const manager = await this.tx();
+
+        const rows: EscrowLockerRow[] = await manager.query(topLockersQuery, [limit]);
+
+        return rows.map((row) => new EscrowLocker({
+            accountId: row.account_id,
+            amount: BigInt(row.amount),
+            amountHuman: BigDecimal(row.amount_human),
+            unlockHeight: row.unlock_height,
+            votingPower: BigInt(row.voting_power),
+        }));
+    }
+
+    @Query(() => BigInt)
+    async totalVotingPower(
+        @Arg('height', () => Int, { nullable: false, description: "Absolute parachain height" })
+        height: number
+    ): Promise<bigint> {
+        const manager = await this.tx();
+
+        const [row]: { total: string }[] = await manager.query(totalVotingPowerQuery, [height]);
+
+        return BigInt(row.total);
+    }
+}
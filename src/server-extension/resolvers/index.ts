@@ -1,2 +1,13 @@
 export { DexAmount, DexTradingVolumesByPool, DexVolumesResolver } from "./dexVolumesResolver";
-export { AccountLoanDeposits, AccountLoanDepositsResolver as AccountLoanDepositResolver } from "./loanDepositsResolver";
\ No newline at end of file
+export { AccountLoanDeposits, AccountLoanDepositsResolver as AccountLoanDepositResolver } from "./loanDepositsResolver";
+export { VaultCollateralizationRatio, VaultCollateralizationResolver } from "./vaultCollateralizationResolver";
+export { InactiveVault, VaultActivityResolver } from "./vaultActivityResolver";
+export { RewardSums, RewardAccrualResolver } from "./rewardAccrualResolver";
+export { EscrowLocker, EscrowLockResolver } from "./escrowLockResolver";
+export { LoanDebt, LoanDebtResolver } from "./loanDebtResolver";
+export { LendTokenBalance, LendTokenResolver } from "./lendTokenResolver";
+export { LoanRewardSums, LoanRewardResolver } from "./loanRewardResolver";
+export { LiquidationDetails, LoanLiquidationResolver } from "./loanLiquidationResolver";
+export { AccountLoanHealth, LoanHealthResolver } from "./loanHealthResolver";
+export { DailyLoanMarketStats, LoanMarketStatsResolver } from "./loanMarketStatsResolver";
+export { PriceCandleDetails, PriceCandleResolver } from "./priceCandleResolver";
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { InterestAccrual, LoanMarket, LoanPosition } from "../../model";
+import { LendTokenBalance, LendTokenResolver } from "./lendTokenResolver";
+
+describe("LendTokenResolver", () => {
+    let fakePositions: LoanPosition[] = [];
+    let fakeAccrual: InterestAccrual | undefined;
+    const fakePositionRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakePositions))
+    };
+    const fakeAccrualRepository = {
+        findOne: jest.fn((_: never) => Promise.resolve(fakeAccrual))
+    };
+    const fakeManager = {
+        getRepository: (entity: unknown) =>
+            entity === LoanPosition ? fakePositionRepository : fakeAccrualRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+    const market = new LoanMarket({ id: "loanMarket_KSM", currencySymbol: "KSM" });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should value lend tokens at the latest exchange rate", async () => {
+        fakePositions = [
+            new LoanPosition({ accountId: "foo", market, lendTokens: 50000n, supplied: 1000n }),
+        ];
+        // 0.021 underlying per lend token
+        fakeAccrual = new InterestAccrual({ exchangeRate: 21n * 10n ** 15n });
+        const resolver = new LendTokenResolver(fakeTx as any);
+
+        const actualResult = await resolver.lendTokenBalances("foo");
+
+        expect(actualResult).toEqual([
+            new LendTokenBalance({
+                accountId: "foo",
+                marketId: "loanMarket_KSM",
+                symbol: "KSM",
+                lendTokens: 50000n,
+                exchangeRate: 21n * 10n ** 15n,
+                underlyingValue: 1050n,
+                supplied: 1000n,
+            }),
+        ]);
+    });
+
+    it("should leave the value unset if no exchange rate is known", async () => {
+        fakePositions = [
+            new LoanPosition({ accountId: "foo", market, lendTokens: 50000n, supplied: 1000n }),
+        ];
+        fakeAccrual = undefined;
+        const resolver = new LendTokenResolver(fakeTx as any);
+
+        const [actualResult] = await resolver.lendTokenBalances("foo");
+
+        expect(actualResult.underlyingValue).toBeUndefined();
+    });
+});
@@ -0,0 +1,72 @@
+import { Arg, Field, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, MoreThan } from 'typeorm';
+import { InterestAccrual, LoanPosition } from '../../model';
+import { lendTokensToUnderlying } from '../../mappings/utils/loanPositions';
+
+@ObjectType()
+export class LendTokenBalance {
+    constructor(props?: Partial<LendTokenBalance>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => String, {nullable: false})
+    marketId!: string;
+
+    @Field(() => String, {nullable: false, description: "symbol of the underlying currency"})
+    symbol!: string;
+
+    @Field(() => BigInt, {nullable: false})
+    lendTokens!: bigint;
+
+    @Field(() => BigInt, {nullable: true, description: "latest exchange rate of the market, as 18 decimal fixed point"})
+    exchangeRate?: bigint;
+
+    @Field(() => BigInt, {nullable: true, description: "lend tokens valued at the latest exchange rate, in underlying atomic units"})
+    underlyingValue?: bigint;
+
+    @Field(() => BigInt, {nullable: false, description: "underlying supplied, net of redemptions"})
+    supplied!: bigint;
+}
+
+@Resolver()
+export class LendTokenResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [LendTokenBalance])
+    async lendTokenBalances(
+        @Arg('accountId', { nullable: false })
+        accountId: string
+    ): Promise<LendTokenBalance[]> {
+        const manager = await this.tx();
+
+        const positions = await manager.getRepository(LoanPosition)
+            .find({
+                where: { accountId, lendTokens: MoreThan(0n) },
+                relations: { market: true },
+            });
+
+        return Promise.all(positions.map(async (position) => {
+            const latestAccrual = await manager.getRepository(InterestAccrual)
+                .findOne({
+                    where: { currencySymbol: position.market.currencySymbol },
+                    order: { timestamp: "DESC" },
+                });
+            const exchangeRate = latestAccrual?.exchangeRate;
+
+            return new LendTokenBalance({
+                accountId,
+                marketId: position.market.id,
+                symbol: position.market.currencySymbol,
+                lendTokens: position.lendTokens,
+                exchangeRate,
+                underlyingValue: exchangeRate === undefined
+                    ? undefined
+                    : lendTokensToUnderlying(position.lendTokens, exchangeRate),
+                supplied: position.supplied,
+            });
+        }));
+    }
+}
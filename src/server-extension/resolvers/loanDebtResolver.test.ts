@@ -0,0 +1,67 @@
+import { InterestAccrual, LoanMarket, LoanPosition } from "../../model";
+import { LoanDebt, LoanDebtResolver } from "./loanDebtResolver";
+
+describe("LoanDebtResolver", () => {
+    let fakePositions: LoanPosition[] = [];
+    let fakeAccrual: InterestAccrual | undefined;
+    const fakePositionRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakePositions))
+    };
+    const fakeAccrualRepository = {
+        findOne: jest.fn((_: never) => Promise.resolve(fakeAccrual))
+    };
+    const fakeManager = {
+        getRepository: (entity: unknown) =>
+            entity === LoanPosition ? fakePositionRepository : fakeAccrualRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+    const market = new LoanMarket({ id: "loanMarket_KSM", currencySymbol: "KSM" });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should return an empty list if the account has no borrows", async () => {
+        fakePositions = [];
+        const resolver = new LoanDebtResolver(fakeTx as any);
+
+        const actualResult = await resolver.outstandingLoanDebts("foo");
+
+        expect(actualResult).toEqual([]);
+        expect(fakeAccrualRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it("should scale the principal by the borrow index growth", async () => {
+        fakePositions = [
+            new LoanPosition({ accountId: "foo", market, borrowed: 1000n, borrowIndex: 10n ** 18n }),
+        ];
+        fakeAccrual = new InterestAccrual({ borrowIndex: 11n * 10n ** 17n });
+        const resolver = new LoanDebtResolver(fakeTx as any);
+
+        const actualResult = await resolver.outstandingLoanDebts("foo");
+
+        expect(actualResult).toEqual([
+            new LoanDebt({
+                accountId: "foo",
+                marketId: "loanMarket_KSM",
+                symbol: "KSM",
+                principal: 1000n,
+                snapshotBorrowIndex: 10n ** 18n,
+                currentBorrowIndex: 11n * 10n ** 17n,
+                outstandingDebt: 1100n,
+            }),
+        ]);
+    });
+
+    it("should return the principal if no borrow index is known", async () => {
+        fakePositions = [
+            new LoanPosition({ accountId: "foo", market, borrowed: 1000n, borrowIndex: null }),
+        ];
+        fakeAccrual = undefined;
+        const resolver = new LoanDebtResolver(fakeTx as any);
+
+        const [actualResult] = await resolver.outstandingLoanDebts("foo");
+
+        expect(actualResult.outstandingDebt).toBe(1000n);
+    });
+});
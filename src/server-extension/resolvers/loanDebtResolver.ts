@@ -0,0 +1,70 @@
+import { Arg, Field, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, MoreThan } from 'typeorm';
+import { InterestAccrual, LoanPosition } from '../../model';
+import { scaleBorrowedAmount } from '../../mappings/utils/loanPositions';
+
+@ObjectType()
+export class LoanDebt {
+    constructor(props?: Partial<LoanDebt>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => String, {nullable: false})
+    marketId!: string;
+
+    @Field(() => String, {nullable: false})
+    symbol!: string;
+
+    @Field(() => BigInt, {nullable: false, description: "amount owed when the borrow was last updated"})
+    principal!: bigint;
+
+    @Field(() => BigInt, {nullable: true})
+    snapshotBorrowIndex?: bigint;
+
+    @Field(() => BigInt, {nullable: true})
+    currentBorrowIndex?: bigint;
+
+    @Field(() => BigInt, {nullable: false, description: "principal scaled by current / snapshot borrow index"})
+    outstandingDebt!: bigint;
+}
+
+@Resolver()
+export class LoanDebtResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [LoanDebt])
+    async outstandingLoanDebts(
+        @Arg('accountId', { nullable: false })
+        accountId: string
+    ): Promise<LoanDebt[]> {
+        const manager = await this.tx();
+
+        const positions = await manager.getRepository(LoanPosition)
+            .find({
+                where: { accountId, borrowed: MoreThan(0n) },
+                relations: { market: true },
+            });
+
+        return Promise.all(positions.map(async (position) => {
+            const latestAccrual = await manager.getRepository(InterestAccrual)
+                .findOne({
+                    where: { currencySymbol: position.market.currencySymbol },
+                    order: { timestamp: "DESC" },
+                });
+            const currentBorrowIndex = latestAccrual?.borrowIndex;
+
+            return new LoanDebt({
+                accountId,
+                marketId: position.market.id,
+                symbol: position.market.currencySymbol,
+                principal: position.borrowed,
+                snapshotBorrowIndex: position.borrowIndex ?? undefined,
+                currentBorrowIndex,
+                outstandingDebt: scaleBorrowedAmount(position.borrowed, position.borrowIndex, currentBorrowIndex),
+            });
+        }));
+    }
+}
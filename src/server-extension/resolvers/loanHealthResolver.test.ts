@@ -0,0 +1,53 @@
+import "reflect-metadata";
+import { BigDecimal } from "@subsquid/big-decimal";
+import { AccountLoanHealth, LoanHealthResolver } from "./loanHealthResolver";
+
+describe("LoanHealthResolver", () => {
+    let fakeRows: any[] = [];
+    const fakeManager = {
+        query: jest.fn((_query: string, _params: never[]) => Promise.resolve(fakeRows))
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should pass no threshold if none is given", async () => {
+        fakeRows = [];
+        const resolver = new LoanHealthResolver(fakeTx as any);
+
+        await resolver.loanHealthFactors(undefined, 10);
+
+        expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [null, 10]);
+    });
+
+    it("should map health rows", async () => {
+        const timestamp = new Date("2023-01-01T00:00:00Z");
+        fakeRows = [
+            {
+                account_id: "foo",
+                health_factor: "0.95",
+                liquidation_threshold_btc: "0.019",
+                borrow_limit_btc: "0.015",
+                borrowed_btc: "0.02",
+                timestamp,
+            },
+        ];
+        const resolver = new LoanHealthResolver(fakeTx as any);
+
+        const actualResult = await resolver.loanHealthFactors(1, 10);
+
+        expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [1, 10]);
+        expect(actualResult).toEqual([
+            new AccountLoanHealth({
+                accountId: "foo",
+                healthFactor: BigDecimal("0.95"),
+                liquidationThresholdBtc: BigDecimal("0.019"),
+                borrowLimitBtc: BigDecimal("0.015"),
+                borrowedBtc: BigDecimal("0.02"),
+                timestamp,
+            }),
+        ]);
+    });
+});
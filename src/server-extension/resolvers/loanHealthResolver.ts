@@ -0,0 +1,76 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, Float, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import type { EntityManager } from 'typeorm';
+
+@ObjectType()
+export class AccountLoanHealth {
+    constructor(props?: Partial<AccountLoanHealth>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => BigDecimal, {nullable: false, description: "liquidation threshold weighted collateral over borrowed value; below 1 can be liquidated"})
+    healthFactor!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    liquidationThresholdBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    borrowLimitBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    borrowedBtc!: BigDecimal;
+
+    @Field(() => Date, {nullable: false})
+    timestamp!: Date;
+}
+
+type LoanHealthRow = {
+    account_id: string,
+    health_factor: string,
+    liquidation_threshold_btc: string,
+    borrow_limit_btc: string,
+    borrowed_btc: string,
+    timestamp: Date,
+}
+
+// latest health per account, skipping accounts without outstanding borrows
+const loanHealthQuery = `
+    SELECT account_id, health_factor, liquidation_threshold_btc, borrow_limit_btc, borrowed_btc, timestamp
+    FROM (
+        SELECT DISTINCT ON (account_id) *
+        FROM loan_health
+        ORDER BY account_id, timestamp DESC
+    ) latest
+    WHERE health_factor IS NOT NULL
+        AND ($1::numeric IS NULL OR health_factor < $1)
+    ORDER BY health_factor ASC
+    LIMIT $2`;
+
+@Resolver()
+export class LoanHealthResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [AccountLoanHealth])
+    async loanHealthFactors(
+        @Arg('below', () => Float, { nullable: true, description: "(optional) only accounts with a health factor below this value, e.g. 1.0 for liquidatable accounts" })
+        below?: number,
+        @Arg('limit', () => Int, { nullable: true, defaultValue: 100, description: "Number of accounts to return, lowest health factor first" })
+        limit?: number
+    ): Promise<AccountLoanHealth[]> {
+        const manager = await this.tx();
+
+        const rows: LoanHealthRow[] = await manager.query(loanHealthQuery, [below ?? null, limit]);
+
+        return rows.map((row) => new AccountLoanHealth({
+            accountId: row.account_id,
+            healthFactor: BigDecimal(row.health_factor),
+            liquidationThresholdBtc: BigDecimal(row.liquidation_threshold_btc),
+            borrowLimitBtc: BigDecimal(row.borrow_limit_btc),
+            borrowedBtc: BigDecimal(row.borrowed_btc),
+            timestamp: row.timestamp,
+        }));
+    }
+}
@@ -0,0 +1,85 @@
+import { Height, LoanLiquidation, LoanMarket } from "../../model";
+import { LiquidationDetails, LoanLiquidationResolver } from "./loanLiquidationResolver";
+
+describe("LoanLiquidationResolver", () => {
+    let fakeLiquidations: LoanLiquidation[] = [];
+    const fakeRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakeLiquidations))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should match the account as borrower or liquidator in the market's either side", async () => {
+        fakeLiquidations = [];
+        const resolver = new LoanLiquidationResolver(fakeTx as any);
+
+        await resolver.loanLiquidations("foo", "loanMarket_KSM");
+
+        const { where } = fakeRepository.find.mock.calls[0][0] as any;
+        expect(where).toEqual([
+            expect.objectContaining({ borrower: "foo", market: { id: "loanMarket_KSM" } }),
+            expect.objectContaining({ borrower: "foo", collateralMarket: { id: "loanMarket_KSM" } }),
+            expect.objectContaining({ liquidator: "foo", market: { id: "loanMarket_KSM" } }),
+            expect.objectContaining({ liquidator: "foo", collateralMarket: { id: "loanMarket_KSM" } }),
+        ]);
+    });
+
+    it("should only filter by time window without account and market", async () => {
+        fakeLiquidations = [];
+        const resolver = new LoanLiquidationResolver(fakeTx as any);
+
+        await resolver.loanLiquidations();
+
+        const { where } = fakeRepository.find.mock.calls[0][0] as any;
+        expect(where).toHaveLength(1);
+        expect(Object.keys(where[0])).toEqual(["timestamp"]);
+    });
+
+    it("should map liquidations", async () => {
+        const timestamp = new Date("2023-01-01T00:00:00Z");
+        fakeLiquidations = [
+            new LoanLiquidation({
+                id: "0001-abc",
+                borrower: "foo",
+                liquidator: "bar",
+                market: new LoanMarket({ id: "loanMarket_KSM" }),
+                collateralMarket: new LoanMarket({ id: "loanMarket_KBTC" }),
+                amountRepaid: 100n,
+                amountRepaidSymbol: "KSM",
+                amountRepaidUsdt: 3.5,
+                seizedCollateral: 5n,
+                seizedCollateralSymbol: "KBTC",
+                seizedCollateralUsdt: 3.8,
+                height: new Height({ absolute: 42 }),
+                timestamp,
+            }),
+        ];
+        const resolver = new LoanLiquidationResolver(fakeTx as any);
+
+        const actualResult = await resolver.loanLiquidations("foo");
+
+        expect(actualResult).toEqual([
+            new LiquidationDetails({
+                id: "0001-abc",
+                borrower: "foo",
+                liquidator: "bar",
+                marketId: "loanMarket_KSM",
+                collateralMarketId: "loanMarket_KBTC",
+                amountRepaid: 100n,
+                amountRepaidSymbol: "KSM",
+                amountRepaidUsdt: 3.5,
+                seizedCollateral: 5n,
+                seizedCollateralSymbol: "KBTC",
+                seizedCollateralUsdt: 3.8,
+                height: 42,
+                timestamp,
+            }),
+        ]);
+    });
+});
@@ -0,0 +1,107 @@
+import { Arg, Field, Float, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between, FindOptionsWhere } from 'typeorm';
+import { LoanLiquidation } from '../../model';
+
+@ObjectType()
+export class LiquidationDetails {
+    constructor(props?: Partial<LiquidationDetails>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    id!: string;
+
+    @Field(() => String, {nullable: false})
+    borrower!: string;
+
+    @Field(() => String, {nullable: false})
+    liquidator!: string;
+
+    @Field(() => String, {nullable: false})
+    marketId!: string;
+
+    @Field(() => String, {nullable: false})
+    collateralMarketId!: string;
+
+    @Field(() => BigInt, {nullable: false})
+    amountRepaid!: bigint;
+
+    @Field(() => String, {nullable: false})
+    amountRepaidSymbol!: string;
+
+    @Field(() => Float, {nullable: false})
+    amountRepaidUsdt!: number;
+
+    @Field(() => BigInt, {nullable: false})
+    seizedCollateral!: bigint;
+
+    @Field(() => String, {nullable: false})
+    seizedCollateralSymbol!: string;
+
+    @Field(() => Float, {nullable: false})
+    seizedCollateralUsdt!: number;
+
+    @Field(() => Int, {nullable: false})
+    height!: number;
+
+    @Field(() => Date, {nullable: false})
+    timestamp!: Date;
+}
+
+@Resolver()
+export class LoanLiquidationResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [LiquidationDetails])
+    async loanLiquidations(
+        @Arg('accountId', { nullable: true, description: "(optional) only liquidations with this account as borrower or liquidator" })
+        accountId?: string,
+        @Arg('marketId', { nullable: true, description: "(optional) only liquidations repaying debt in, or seizing collateral from, this market" })
+        marketId?: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<LiquidationDetails[]> {
+        const manager = await this.tx();
+
+        const timestamp = Between(startDate || new Date(0), endDate || new Date());
+        const accountConditions: FindOptionsWhere<LoanLiquidation>[] = accountId
+            ? [{ borrower: accountId }, { liquidator: accountId }]
+            : [{}];
+        const marketConditions: FindOptionsWhere<LoanLiquidation>[] = marketId
+            ? [{ market: { id: marketId } }, { collateralMarket: { id: marketId } }]
+            : [{}];
+        // any of the account conditions combined with any of the market conditions
+        const where = accountConditions.flatMap((accountCondition) =>
+            marketConditions.map((marketCondition) => ({
+                ...accountCondition,
+                ...marketCondition,
+                timestamp,
+            }))
+        );
+
+        const liquidations = await manager.getRepository(LoanLiquidation)
+            .find({
+                where,
+                relations: { market: true, collateralMarket: true, height: true },
+                order: { timestamp: "ASC" },
+            });
+
+        return liquidations.map((liquidation) => new LiquidationDetails({
+            id: liquidation.id,
+            borrower: liquidation.borrower,
+            liquidator: liquidation.liquidator,
+            marketId: liquidation.market.id,
+            collateralMarketId: liquidation.collateralMarket.id,
+            amountRepaid: liquidation.amountRepaid,
+            amountRepaidSymbol: liquidation.amountRepaidSymbol,
+            amountRepaidUsdt: liquidation.amountRepaidUsdt,
+            seizedCollateral: liquidation.seizedCollateral,
+            seizedCollateralSymbol: liquidation.seizedCollateralSymbol,
+            seizedCollateralUsdt: liquidation.seizedCollateralUsdt,
+            height: liquidation.height.absolute,
+            timestamp: liquidation.timestamp,
+        }));
+    }
+}
@@ -0,0 +1,57 @@
+import { LoanMarket, LoanMarketDailyStats } from "../../model";
+import { DailyLoanMarketStats, LoanMarketStatsResolver } from "./loanMarketStatsResolver";
+
+describe("LoanMarketStatsResolver", () => {
+    let fakeDays: LoanMarketDailyStats[] = [];
+    const fakeRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakeDays))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should filter by market if given", async () => {
+        fakeDays = [];
+        const resolver = new LoanMarketStatsResolver(fakeTx as any);
+
+        await resolver.loanMarketDailyStats("loanMarket_KSM");
+        await resolver.loanMarketDailyStats();
+
+        const [[withMarket], [withoutMarket]] = fakeRepository.find.mock.calls as any[];
+        expect(withMarket.where.market).toEqual({ id: "loanMarket_KSM" });
+        expect(withoutMarket.where.market).toBeUndefined();
+    });
+
+    it("should map days without accruals", async () => {
+        const date = new Date("2023-01-01T00:00:00Z");
+        fakeDays = [
+            new LoanMarketDailyStats({
+                market: new LoanMarket({ id: "loanMarket_KSM" }),
+                currencySymbol: "KSM",
+                date,
+                accrualCount: 0,
+                utilizationOpen: null,
+                activeBorrowers: 2,
+                activeSuppliers: 5,
+            }),
+        ];
+        const resolver = new LoanMarketStatsResolver(fakeTx as any);
+
+        const actualResult = await resolver.loanMarketDailyStats("loanMarket_KSM");
+
+        expect(actualResult).toEqual([
+            new DailyLoanMarketStats({
+                marketId: "loanMarket_KSM",
+                symbol: "KSM",
+                date,
+                activeBorrowers: 2,
+                activeSuppliers: 5,
+            }),
+        ]);
+    });
+});
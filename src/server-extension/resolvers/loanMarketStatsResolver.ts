@@ -0,0 +1,112 @@
+import { Arg, Field, Float, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between } from 'typeorm';
+import { LoanMarketDailyStats } from '../../model';
+
+@ObjectType()
+export class DailyLoanMarketStats {
+    constructor(props?: Partial<DailyLoanMarketStats>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    marketId!: string;
+
+    @Field(() => String, {nullable: false})
+    symbol!: string;
+
+    @Field(() => Date, {nullable: false, description: "start of the UTC day"})
+    date!: Date;
+
+    @Field(() => Float, {nullable: true})
+    utilizationOpen?: number;
+
+    @Field(() => Float, {nullable: true})
+    utilizationClose?: number;
+
+    @Field(() => Float, {nullable: true, description: "time-weighted average utilization between the first and last accrual of the day"})
+    utilizationAvg?: number;
+
+    @Field(() => Float, {nullable: true, description: "borrow APR (yearly rate, not compounded) of the day's last accrual in percent"})
+    borrowAprClose?: number;
+
+    @Field(() => Float, {nullable: true, description: "time-weighted average borrow APR of the day in percent"})
+    borrowAprAvg?: number;
+
+    @Field(() => Float, {nullable: true, description: "supply APR (yearly rate, not compounded) of the day's last accrual in percent"})
+    supplyAprClose?: number;
+
+    @Field(() => Float, {nullable: true, description: "time-weighted average supply APR of the day in percent"})
+    supplyAprAvg?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalBorrowsNative?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalBorrowsBtc?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalBorrowsUsdt?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalReservesNative?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalReservesBtc?: number;
+
+    @Field(() => Float, {nullable: true})
+    totalReservesUsdt?: number;
+
+    @Field(() => Int, {nullable: false})
+    activeBorrowers!: number;
+
+    @Field(() => Int, {nullable: false})
+    activeSuppliers!: number;
+}
+
+@Resolver()
+export class LoanMarketStatsResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [DailyLoanMarketStats])
+    async loanMarketDailyStats(
+        @Arg('marketId', { nullable: true, description: "(optional) only days of this market, e.g. loanMarket_KSM" })
+        marketId?: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<DailyLoanMarketStats[]> {
+        const manager = await this.tx();
+
+        const days = await manager.getRepository(LoanMarketDailyStats)
+            .find({
+                where: {
+                    market: marketId ? { id: marketId } : undefined,
+                    date: Between(startDate || new Date(0), endDate || new Date()),
+                },
+                relations: { market: true },
+                order: { date: "ASC" },
+            });
+
+        return days.map((day) => new DailyLoanMarketStats({
+            marketId: day.market.id,
+            symbol: day.currencySymbol,
+            date: day.date,
+            utilizationOpen: day.utilizationOpen ?? undefined,
+            utilizationClose: day.utilizationClose ?? undefined,
+            utilizationAvg: day.utilizationAvg ?? undefined,
+            borrowAprClose: day.borrowAprClose ?? undefined,
+            borrowAprAvg: day.borrowAprAvg ?? undefined,
+            supplyAprClose: day.supplyAprClose ?? undefined,
+            supplyAprAvg: day.supplyAprAvg ?? undefined,
+            totalBorrowsNative: day.totalBorrowsNative ?? undefined,
+            totalBorrowsBtc: day.totalBorrowsBtc ?? undefined,
+            totalBorrowsUsdt: day.totalBorrowsUsdt ?? undefined,
+            totalReservesNative: day.totalReservesNative ?? undefined,
+            totalReservesBtc: day.totalReservesBtc ?? undefined,
+            totalReservesUsdt: day.totalReservesUsdt ?? undefined,
+            activeBorrowers: day.activeBorrowers,
+            activeSuppliers: day.activeSuppliers,
+        }));
+    }
+}
@@ -0,0 +1,65 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { LoanReward, LoanRewardType } from "../../model";
+import { LoanRewardResolver, LoanRewardSums } from "./loanRewardResolver";
+
+describe("LoanRewardResolver", () => {
+    let fakeRewards: LoanReward[] = [];
+    const fakeRepository = {
+        findBy: jest.fn((_: never) => Promise.resolve(fakeRewards))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should return an empty list if no rewards exist", async () => {
+        fakeRewards = [];
+        const resolver = new LoanRewardResolver(fakeTx as any);
+
+        const actualResult = await resolver.loanRewardsByAccount("foo");
+
+        expect(actualResult).toEqual([]);
+    });
+
+    it("should sum borrower and supplier rewards separately", async () => {
+        const reward = (type: LoanRewardType, amount: bigint, amountUsdt?: number) =>
+            new LoanReward({
+                type,
+                currencySymbol: "KINT",
+                amount,
+                amountHuman: BigDecimal(amount.toString()).div(100),
+                amountUsdt,
+            });
+        fakeRewards = [
+            reward(LoanRewardType.Supplier, 100n, 1),
+            reward(LoanRewardType.Borrower, 50n),
+            reward(LoanRewardType.Supplier, 300n, 3),
+        ];
+        const resolver = new LoanRewardResolver(fakeTx as any);
+
+        const actualResult = await resolver.loanRewardsByAccount("foo");
+
+        expect(actualResult).toEqual([
+            new LoanRewardSums({
+                accountId: "foo",
+                type: LoanRewardType.Supplier,
+                symbol: "KINT",
+                sumAmount: 400n,
+                sumAmountHuman: BigDecimal(4),
+                sumAmountUsdt: BigDecimal(4),
+            }),
+            new LoanRewardSums({
+                accountId: "foo",
+                type: LoanRewardType.Borrower,
+                symbol: "KINT",
+                sumAmount: 50n,
+                sumAmountHuman: BigDecimal(0.5),
+                sumAmountUsdt: BigDecimal(0),
+            }),
+        ]);
+    });
+});
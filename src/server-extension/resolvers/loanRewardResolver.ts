@@ -0,0 +1,74 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between } from 'typeorm';
+import { LoanReward } from '../../model';
+
+@ObjectType()
+export class LoanRewardSums {
+    constructor(props?: Partial<LoanRewardSums>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => String, {nullable: false, description: "Borrower or Supplier"})
+    type!: string;
+
+    @Field(() => String, {nullable: false, description: "symbol of the reward currency"})
+    symbol!: string;
+
+    @Field(() => BigInt, {nullable: false})
+    sumAmount!: bigint;
+
+    @Field(() => BigDecimal, {nullable: false})
+    sumAmountHuman!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    sumAmountUsdt!: BigDecimal;
+}
+
+@Resolver()
+export class LoanRewardResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [LoanRewardSums])
+    async loanRewardsByAccount(
+        @Arg('accountId', { nullable: false })
+        accountId: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<LoanRewardSums[]> {
+        const manager = await this.tx();
+
+        const rewards = await manager.getRepository(LoanReward)
+            .findBy({
+                accountId,
+                timestamp: Between(startDate || new Date(0), endDate || new Date()),
+            });
+
+        // one sum per reward type and currency, across all markets
+        const sums = new Map<string, LoanRewardSums>();
+        for (const reward of rewards) {
+            const key = `${reward.type}-${reward.currencySymbol}`;
+            const sum = sums.get(key) || new LoanRewardSums({
+                accountId,
+                type: reward.type,
+                symbol: reward.currencySymbol,
+                sumAmount: 0n,
+                sumAmountHuman: BigDecimal(0),
+                sumAmountUsdt: BigDecimal(0),
+            });
+            sum.sumAmount += reward.amount;
+            sum.sumAmountHuman = sum.sumAmountHuman.add(reward.amountHuman);
+            if (reward.amountUsdt) {
+                sum.sumAmountUsdt = sum.sumAmountUsdt.add(reward.amountUsdt);
+            }
+            sums.set(key, sum);
+        }
+
+        return [...sums.values()];
+    }
+}
@@ -0,0 +1,60 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { PriceCandle, PriceCandleInterval } from "../../model";
+import { PriceCandleDetails, PriceCandleResolver } from "./priceCandleResolver";
+
+describe("PriceCandleResolver", () => {
+    let fakeCandles: PriceCandle[] = [];
+    const fakeRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakeCandles))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should reject unknown intervals", async () => {
+        const resolver = new PriceCandleResolver(fakeTx as any);
+
+        await expect(resolver.priceCandles("KSM", "Week")).rejects.toThrow("Unknown interval");
+        expect(fakeRepository.find).not.toHaveBeenCalled();
+    });
+
+    it("should map candles without USDT prices", async () => {
+        const startTime = new Date("2023-01-01T00:00:00Z");
+        fakeCandles = [
+            new PriceCandle({
+                currencySymbol: "KSM",
+                interval: PriceCandleInterval.Day,
+                startTime,
+                openBtc: BigDecimal("0.001"),
+                highBtc: BigDecimal("0.0012"),
+                lowBtc: BigDecimal("0.0009"),
+                closeBtc: BigDecimal("0.0011"),
+                closeUsdt: null,
+                feedCount: 3,
+            }),
+        ];
+        const resolver = new PriceCandleResolver(fakeTx as any);
+
+        const actualResult = await resolver.priceCandles("KSM", "Day");
+
+        const { where } = fakeRepository.find.mock.calls[0][0] as any;
+        expect(where).toEqual(expect.objectContaining({ currencySymbol: "KSM", interval: PriceCandleInterval.Day }));
+        expect(actualResult).toEqual([
+            new PriceCandleDetails({
+                symbol: "KSM",
+                interval: "Day",
+                startTime,
+                openBtc: BigDecimal("0.001"),
+                highBtc: BigDecimal("0.0012"),
+                lowBtc: BigDecimal("0.0009"),
+                closeBtc: BigDecimal("0.0011"),
+                feedCount: 3,
+            }),
+        ]);
+    });
+});
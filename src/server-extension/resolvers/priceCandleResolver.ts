@@ -0,0 +1,94 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between } from 'typeorm';
+import { PriceCandle, PriceCandleInterval } from '../../model';
+
+@ObjectType()
+export class PriceCandleDetails {
+    constructor(props?: Partial<PriceCandleDetails>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    symbol!: string;
+
+    @Field(() => String, {nullable: false, description: "Hour or Day"})
+    interval!: string;
+
+    @Field(() => Date, {nullable: false})
+    startTime!: Date;
+
+    @Field(() => BigDecimal, {nullable: false})
+    openBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    highBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    lowBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    closeBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: true})
+    openUsdt?: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: true})
+    highUsdt?: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: true})
+    lowUsdt?: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: true})
+    closeUsdt?: BigDecimal;
+
+    @Field(() => Int, {nullable: false})
+    feedCount!: number;
+}
+
+@Resolver()
+export class PriceCandleResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [PriceCandleDetails])
+    async priceCandles(
+        @Arg('symbol', { nullable: false, description: "currency symbol, e.g. KSM" })
+        symbol: string,
+        @Arg('interval', { nullable: true, defaultValue: PriceCandleInterval.Hour, description: "Hour or Day, defaults to Hour" })
+        interval: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<PriceCandleDetails[]> {
+        if (!Object.values<string>(PriceCandleInterval).includes(interval)) {
+            throw Error(`Unknown interval ${interval}, expected one of ${Object.values(PriceCandleInterval).join(", ")}`);
+        }
+        const manager = await this.tx();
+
+        const candles = await manager.getRepository(PriceCandle)
+            .find({
+                where: {
+                    currencySymbol: symbol,
+                    interval: interval as PriceCandleInterval,
+                    startTime: Between(startDate || new Date(0), endDate || new Date()),
+                },
+                order: { startTime: "ASC" },
+            });
+
+        return candles.map((candle) => new PriceCandleDetails({
+            symbol: candle.currencySymbol,
+            interval: candle.interval,
+            startTime: candle.startTime,
+            openBtc: candle.openBtc,
+            highBtc: candle.highBtc,
+            lowBtc: candle.lowBtc,
+            closeBtc: candle.closeBtc,
+            openUsdt: candle.openUsdt ?? undefined,
+            highUsdt: candle.highUsdt ?? undefined,
+            lowUsdt: candle.lowUsdt ?? undefined,
+            closeUsdt: candle.closeUsdt ?? undefined,
+            feedCount: candle.feedCount,
+        }));
+    }
+}
@@ -0,0 +1,111 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { RewardAccrual, RewardAccrualType } from "../../model";
+import { RewardAccrualResolver, RewardSums } from "./rewardAccrualResolver";
+
+describe("RewardAccrualResolver", () => {
+    let fakeAccruals: RewardAccrual[] = [];
+    const fakeRepository = {
+        findBy: jest.fn((_: never) => Promise.resolve(fakeAccruals))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should return an empty list if no rewards exist", async () => {
+        fakeAccruals = [];
+        const resolver = new RewardAccrualResolver(fakeTx as any);
+
+        const actualResult = await resolver.rewardsByAccount("foo");
+
+        expect(actualResult).toEqual([]);
+    });
+
+    it("should sum rewards per type and currency", async () => {
+        const accrual = (type: RewardAccrualType, symbol: string, amount: bigint, amountBtc?: number) =>
+            new RewardAccrual({
+                type,
+                currencySymbol: symbol,
+                amount,
+                amountHuman: BigDecimal(amount.toString()).div(10),
+                amountBtc,
+                amountUsdt: amountBtc === undefined ? undefined : amountBtc * 2,
+            });
+        fakeAccruals = [
+            accrual(RewardAccrualType.Withdrawn, "KINT", 10n, 1),
+            accrual(RewardAccrualType.Withdrawn, "KINT", 20n),
+            accrual(RewardAccrualType.Withdrawn, "KBTC", 5n, 5),
+            accrual(RewardAccrualType.Distributed, "KINT", 30n, 3),
+        ];
+        const resolver = new RewardAccrualResolver(fakeTx as any);
+
+        const actualResult = await resolver.rewardsByAccount("foo", "bar");
+
+        expect(fakeRepository.findBy).toHaveBeenCalledWith(
+            expect.objectContaining({ accountId: "foo", vault: { id: "bar" } })
+        );
+        expect(actualResult).toEqual([
+            new RewardSums({
+                accountId: "foo",
+                type: RewardAccrualType.Withdrawn,
+                symbol: "KINT",
+                sumAmount: 30n,
+                sumAmountHuman: BigDecimal(3),
+                sumAmountBtc: BigDecimal(1),
+                sumAmountUsdt: BigDecimal(2),
+            }),
+            new RewardSums({
+                accountId: "foo",
+                type: RewardAccrualType.Withdrawn,
+                symbol: "KBTC",
+                sumAmount: 5n,
+                sumAmountHuman: BigDecimal(0.5),
+                sumAmountBtc: BigDecimal(5),
+                sumAmountUsdt: BigDecimal(10),
+            }),
+            new RewardSums({
+                accountId: "foo",
+                type: RewardAccrualType.Distributed,
+                symbol: "KINT",
+                sumAmount: 30n,
+                sumAmountHuman: BigDecimal(3),
+                sumAmountBtc: BigDecimal(3),
+                sumAmountUsdt: BigDecimal(6),
+            }),
+        ]);
+    });
+
+    it("should sum all rewards of a vault without an account", async () => {
+        fakeAccruals = [
+            new RewardAccrual({
+                type: RewardAccrualType.Distributed,
+                currencySymbol: "KINT",
+                amount: 30n,
+                amountHuman: BigDecimal(3),
+                amountBtc: 3,
+            }),
+        ];
+        const resolver = new RewardAccrualResolver(fakeTx as any);
+
+        const actualResult = await resolver.rewardsByVault("bar");
+
+        expect(fakeRepository.findBy).toHaveBeenCalledWith(
+            expect.objectContaining({ vault: { id: "bar" } })
+        );
+        expect(actualResult).toEqual([
+            new RewardSums({
+                accountId: undefined,
+                type: RewardAccrualType.Distributed,
+                symbol: "KINT",
+                sumAmount: 30n,
+                sumAmountHuman: BigDecimal(3),
+                sumAmountBtc: BigDecimal(3),
+                sumAmountUsdt: BigDecimal(0),
+            }),
+        ]);
+    });
+});
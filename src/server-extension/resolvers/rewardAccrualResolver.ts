@@ -0,0 +1,109 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between } from 'typeorm';
+import { RewardAccrual } from '../../model';
+
+@ObjectType()
+export class RewardSums {
+    constructor(props?: Partial<RewardSums>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: true, description: "null when summing all rewards of a vault"})
+    accountId?: string;
+
+    @Field(() => String, {nullable: false, description: "Distributed or Withdrawn"})
+    type!: string;
+
+    @Field(() => String, {nullable: false})
+    symbol!: string;
+
+    @Field(() => BigInt, {nullable: false})
+    sumAmount!: bigint;
+
+    @Field(() => BigDecimal, {nullable: false})
+    sumAmountHuman!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    sumAmountBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: false})
+    sumAmountUsdt!: BigDecimal;
+}
+
+// one sum per reward type and currency
+function sumRewards(accruals: RewardAccrual[], accountId?: string): RewardSums[] {
+    const sums = new Map<string, RewardSums>();
+    for (const accrual of accruals) {
+        const key = `${accrual.type}-${accrual.currencySymbol}`;
+        const sum = sums.get(key) || new RewardSums({
+            accountId,
+            type: accrual.type,
+            symbol: accrual.currencySymbol,
+            sumAmount: 0n,
+            sumAmountHuman: BigDecimal(0),
+            sumAmountBtc: BigDecimal(0),
+            sumAmountUsdt: BigDecimal(0),
+        });
+        sum.sumAmount += accrual.amount;
+        sum.sumAmountHuman = sum.sumAmountHuman.add(accrual.amountHuman);
+        if (accrual.amountBtc) {
+            sum.sumAmountBtc = sum.sumAmountBtc.add(accrual.amountBtc);
+        }
+        if (accrual.amountUsdt) {
+            sum.sumAmountUsdt = sum.sumAmountUsdt.add(accrual.amountUsdt);
+        }
+        sums.set(key, sum);
+    }
+
+    return [...sums.values()];
+}
+
+@Resolver()
+export class RewardAccrualResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [RewardSums])
+    async rewardsByAccount(
+        @Arg('accountId', { nullable: false })
+        accountId: string,
+        @Arg('vaultId', { nullable: true, description: "(optional) only sum rewards of this vault" })
+        vaultId?: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<RewardSums[]> {
+        const manager = await this.tx();
+
+        const accruals = await manager.getRepository(RewardAccrual)
+            .findBy({
+                accountId,
+                vault: vaultId ? { id: vaultId } : undefined,
+                timestamp: Between(startDate || new Date(0), endDate || new Date()),
+            });
+
+        return sumRewards(accruals, accountId);
+    }
+
+    @Query(() => [RewardSums])
+    async rewardsByVault(
+        @Arg('vaultId', { nullable: false })
+        vaultId: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<RewardSums[]> {
+        const manager = await this.tx();
+
+        // distributions to the staking pool and withdrawals of all its stakers
+        const accruals = await manager.getRepository(RewardAccrual)
+            .findBy({
+                vault: { id: vaultId },
+                timestamp: Between(startDate || new Date(0), endDate || new Date()),
+            });
+
+        return sumRewards(accruals);
+    }
+}
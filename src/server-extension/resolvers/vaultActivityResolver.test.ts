@@ -0,0 +1,37 @@
+import "reflect-metadata";
+import { InactiveVault, VaultActivityResolver } from "./vaultActivityResolver";
+
+describe("VaultActivityResolver", () => {
+    describe("inactiveVaults", () => {
+        let fakeRows: any[] = [];
+        const fakeManager = {
+            query: jest.fn((_query: string, _params: never[]) => Promise.resolve(fakeRows))
+        };
+        const fakeTx = () => Promise.resolve(fakeManager);
+
+        it("should pass the number of blocks to the query", async () => {
+            fakeRows = [];
+            const resolver = new VaultActivityResolver(fakeTx as any);
+
+            const actualResult = await resolver.inactiveVaults(1000);
+
+            expect(actualResult).toEqual([]);
+            expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [1000]);
+        });
+
+        it("should leave the last activity unset for vaults never seen active", async () => {
+            fakeRows = [
+                { id: "foo", account_id: "a", registration_block: 10, last_activity_block: null },
+                { id: "bar", account_id: "b", registration_block: 5, last_activity_block: 20 },
+            ];
+            const resolver = new VaultActivityResolver(fakeTx as any);
+
+            const actualResult = await resolver.inactiveVaults(1000);
+
+            expect(actualResult).toEqual([
+                new InactiveVault({ vaultId: "foo", accountId: "a", registrationBlock: 10, lastActivityBlock: undefined }),
+                new InactiveVault({ vaultId: "bar", accountId: "b", registrationBlock: 5, lastActivityBlock: 20 }),
+            ]);
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { Arg, Field, Int, ObjectType, Query, Resolver } from 'type-graphql';
+import type { EntityManager } from 'typeorm';
+
+@ObjectType()
+export class InactiveVault {
+    constructor(props?: Partial<InactiveVault>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    vaultId!: string;
+
+    @Field(() => String, {nullable: false})
+    accountId!: string;
+
+    @Field(() => Int, {nullable: false})
+    registrationBlock!: number;
+
+    @Field(() => Int, {nullable: true, description: "absolute height of the last signed vault call, null if none was seen"})
+    lastActivityBlock?: number;
+}
+
+type InactiveVaultRow = {
+    id: string,
+    account_id: string,
+    registration_block: number,
+    last_activity_block: number | null,
+}
+
+// vaults never seen active count as active at registration
+const inactiveVaultsQuery = `
+    SELECT vault.id, vault.account_id,
+        registration.absolute AS registration_block,
+        activity.absolute AS last_activity_block
+    FROM vault
+    JOIN height registration ON registration.id = vault.registration_block_id
+    LEFT JOIN height activity ON activity.id = vault.last_activity_id
+    WHERE COALESCE(activity.absolute, registration.absolute) < (SELECT MAX(absolute) FROM height) - $1
+    ORDER BY COALESCE(activity.absolute, registration.absolute) ASC`;
+
+@Resolver()
+export class VaultActivityResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [InactiveVault])
+    async inactiveVaults(
+        @Arg('blocks', () => Int, { nullable: false, description: "Number of parachain blocks without a signed vault call" })
+        blocks: number
+    ): Promise<InactiveVault[]> {
+        const manager = await this.tx();
+
+        const rows: InactiveVaultRow[] = await manager.query(inactiveVaultsQuery, [blocks]);
+
+        return rows.map((row) => new InactiveVault({
+            vaultId: row.id,
+            accountId: row.account_id,
+            registrationBlock: row.registration_block,
+            lastActivityBlock: row.last_activity_block ?? undefined,
+        }));
+    }
+}
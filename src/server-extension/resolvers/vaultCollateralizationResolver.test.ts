@@ -0,0 +1,110 @@
+import { BigDecimal } from "@subsquid/big-decimal";
+import { VaultCollateralization } from "../../model";
+import { VaultCollateralizationRatio, VaultCollateralizationResolver } from "./vaultCollateralizationResolver";
+
+describe("VaultCollateralizationResolver", () => {
+    let fakeCollateralizations: VaultCollateralization[] = [];
+    let fakeRows: any[] = [];
+    const fakeRepository = {
+        find: jest.fn((_: never) => Promise.resolve(fakeCollateralizations))
+    };
+    const fakeManager = {
+        getRepository: (_: never) => fakeRepository,
+        query: jest.fn((_query: string, _params: never[]) => Promise.resolve(fakeRows))
+    };
+    const fakeTx = () => Promise.resolve(fakeManager);
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("vaultCollateralizationHistory", () => {
+        it("should return an empty list if no collateralizations exist", async () => {
+            fakeCollateralizations = [];
+            const resolver = new VaultCollateralizationResolver(fakeTx as any);
+
+            const actualResult = await resolver.vaultCollateralizationHistory("foo");
+
+            expect(actualResult).toEqual([]);
+        });
+
+        it("should map entities and leave the ratio unset if nothing is issued", async () => {
+            const timestamp = new Date("2023-01-01T00:00:00Z");
+            fakeCollateralizations = [
+                new VaultCollateralization({
+                    timestamp,
+                    lockedCollateral: 100n,
+                    issuedTokens: 0n,
+                    collateralValueBtc: BigDecimal(1),
+                    collateralizationRatio: null,
+                }),
+                new VaultCollateralization({
+                    timestamp,
+                    lockedCollateral: 100n,
+                    issuedTokens: 50n,
+                    collateralValueBtc: BigDecimal(1),
+                    collateralizationRatio: BigDecimal(2),
+                }),
+            ];
+            const resolver = new VaultCollateralizationResolver(fakeTx as any);
+
+            const actualResult = await resolver.vaultCollateralizationHistory("foo");
+
+            expect(actualResult).toEqual([
+                new VaultCollateralizationRatio({
+                    vaultId: "foo",
+                    timestamp,
+                    lockedCollateral: 100n,
+                    issuedTokens: 0n,
+                    collateralValueBtc: BigDecimal(1),
+                    collateralizationRatio: undefined,
+                }),
+                new VaultCollateralizationRatio({
+                    vaultId: "foo",
+                    timestamp,
+                    lockedCollateral: 100n,
+                    issuedTokens: 50n,
+                    collateralValueBtc: BigDecimal(1),
+                    collateralizationRatio: BigDecimal(2),
+                }),
+            ]);
+        });
+    });
+
+    describe("vaultsBelowCollateralizationThreshold", () => {
+        it("should pass the threshold to the query", async () => {
+            fakeRows = [];
+            const resolver = new VaultCollateralizationResolver(fakeTx as any);
+
+            await resolver.vaultsBelowCollateralizationThreshold(1.5);
+
+            expect(fakeManager.query).toHaveBeenCalledWith(expect.any(String), [1.5]);
+        });
+
+        it("should convert raw rows", async () => {
+            const timestamp = new Date("2023-01-01T00:00:00Z");
+            fakeRows = [{
+                vault_id: "bar",
+                timestamp,
+                locked_collateral: "1000",
+                issued_tokens: "10",
+                collateral_value_btc: "0.12",
+                collateralization_ratio: "1.2",
+            }];
+            const resolver = new VaultCollateralizationResolver(fakeTx as any);
+
+            const actualResult = await resolver.vaultsBelowCollateralizationThreshold(1.5);
+
+            expect(actualResult).toEqual([
+                new VaultCollateralizationRatio({
+                    vaultId: "bar",
+                    timestamp,
+                    lockedCollateral: 1000n,
+                    issuedTokens: 10n,
+                    collateralValueBtc: BigDecimal("0.12"),
+                    collateralizationRatio: BigDecimal("1.2"),
+                }),
+            ]);
+        });
+    });
+});
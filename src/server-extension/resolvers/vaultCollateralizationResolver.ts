@@ -0,0 +1,107 @@
+import { BigDecimal } from '@subsquid/big-decimal';
+import { Arg, Field, Float, ObjectType, Query, Resolver } from 'type-graphql';
+import { type EntityManager, Between } from 'typeorm';
+import { VaultCollateralization } from '../../model';
+
+@ObjectType()
+export class VaultCollateralizationRatio {
+    constructor(props?: Partial<VaultCollateralizationRatio>) {
+        Object.assign(this, props)
+    }
+
+    @Field(() => String, {nullable: false})
+    vaultId!: string;
+
+    @Field(() => Date, {nullable: false})
+    timestamp!: Date;
+
+    @Field(() => BigInt, {nullable: false})
+    lockedCollateral!: bigint;
+
+    @Field(() => BigInt, {nullable: false})
+    issuedTokens!: bigint;
+
+    @Field(() => BigDecimal, {nullable: false})
+    collateralValueBtc!: BigDecimal;
+
+    @Field(() => BigDecimal, {nullable: true})
+    collateralizationRatio?: BigDecimal;
+}
+
+type LatestCollateralizationRow = {
+    vault_id: string,
+    timestamp: Date,
+    locked_collateral: string,
+    issued_tokens: string,
+    collateral_value_btc: string,
+    collateralization_ratio: string,
+}
+
+// latest entry per vault, only kept if the vault has tokens issued and is below the threshold
+const latestCollateralizationsBelowThresholdQuery = `
+    SELECT * FROM (
+        SELECT DISTINCT ON (vault_id)
+            vault_id, timestamp, locked_collateral, issued_tokens,
+            collateral_value_btc, collateralization_ratio
+        FROM vault_collateralization
+        ORDER BY vault_id, timestamp DESC
+    ) latest
+    WHERE collateralization_ratio < $1
+    ORDER BY collateralization_ratio ASC`;
+
+@Resolver()
+export class VaultCollateralizationResolver {
+    constructor(private tx: () => Promise<EntityManager>) {}
+
+    @Query(() => [VaultCollateralizationRatio])
+    async vaultCollateralizationHistory(
+        @Arg('vaultId', { nullable: false })
+        vaultId: string,
+        @Arg('startDate', { nullable: true, description: "(optional) startDate in ISO 8601 format. Defaults to the unix epoch." })
+        startDate?: Date,
+        @Arg('endDate', { nullable: true, description: "(optional) endDate in ISO 8601 format. Defaults to current date/time." })
+        endDate?: Date
+    ): Promise<VaultCollateralizationRatio[]> {
+        const manager = await this.tx();
+
+        const collateralizations = await manager.getRepository(VaultCollateralization)
+            .find({
+                where: {
+                    vault: { id: vaultId },
+                    timestamp: Between(startDate || new Date(0), endDate || new Date()),
+                },
+                order: { timestamp: "ASC" },
+            });
+
+        return collateralizations.map((entity) => new VaultCollateralizationRatio({
+            vaultId,
+            timestamp: entity.timestamp,
+            lockedCollateral: entity.lockedCollateral,
+            issuedTokens: entity.issuedTokens,
+            collateralValueBtc: entity.collateralValueBtc,
+            collateralizationRatio: entity.collateralizationRatio ?? undefined,
+        }));
+    }
+
+    @Query(() => [VaultCollateralizationRatio])
+    async vaultsBelowCollateralizationThreshold(
+        @Arg('threshold', () => Float, { nullable: false, description: "Collateralization ratio (e.g. 1.5 for 150%) to compare the latest ratio of each vault against" })
+        threshold: number
+    ): Promise<VaultCollateralizationRatio[]> {
+        const manager = await this.tx();
+
+        const rows: LatestCollateralizationRow[] = await manager.query(
+            latestCollateralizationsBelowThresholdQuery,
+            [threshold]
+        );
+
+        return rows.map((row) => new VaultCollateralizationRatio({
+            vaultId: row.vault_id,
+            timestamp: new Date(row.timestamp),
+            lockedCollateral: BigInt(row.locked_collateral),
+            issuedTokens: BigInt(row.issued_tokens),
+            collateralValueBtc: BigDecimal(row.collateral_value_btc),
+            collateralizationRatio: BigDecimal(row.collateralization_ratio),
+        }));
+    }
+}
@@ -1,5 +1,7 @@
 import assert from 'assert'
 import {Chain, ChainContext, CallContext, Call, Result, Option} from './support'
+import * as v1020000 from './v1020000'
+import * as v1021000 from './v1021000'
 import * as v1024000 from './v1024000'
 
 export class BtcRelayStoreBlockHeaderCall {
@@ -118,6 +120,196 @@ export class BtcRelayStoreBlockHeaderCall {
     }
 }
 
+export class IssueExecuteIssueCall {
+    private readonly _chain: Chain
+    private readonly call: Call
+
+    constructor(ctx: CallContext)
+    constructor(ctx: ChainContext, call: Call)
+    constructor(ctx: CallContext, call?: Call) {
+        call = call || ctx.call
+        assert(call.name === 'Issue.execute_issue')
+        this._chain = ctx._chain
+        this.call = call
+    }
+
+    /**
+     * Finalize the issuance of tokens
+     * 
+     * # Arguments
+     * 
+     * * `origin` - sender of the transaction
+     * * `issue_id` - identifier of issue request as output from request_issue
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     */
+    get isV1021000(): boolean {
+        return this._chain.getCallHash('Issue.execute_issue') === '13347eca71c61780d010afe3fb10bade7802debb8188e72e54665f1cbc63a3ea'
+    }
+
+    /**
+     * Finalize the issuance of tokens
+     * 
+     * # Arguments
+     * 
+     * * `origin` - sender of the transaction
+     * * `issue_id` - identifier of issue request as output from request_issue
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     */
+    get asV1021000(): {issueId: Uint8Array, merkleProof: Uint8Array, rawTx: Uint8Array} {
+        assert(this.isV1021000)
+        return this._chain.decodeCall(this.call)
+    }
+
+    /**
+     * Finalize the issuance of tokens
+     * 
+     * # Arguments
+     * 
+     * * `origin` - sender of the transaction
+     * * `issue_id` - identifier of issue request as output from request_issue
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     * 
+     * ## Complexity:
+     * - `O(H + I + O + B)` where:
+     *   - `H` is the number of hashes in the merkle tree
+     *   - `I` is the number of transaction inputs
+     *   - `O` is the number of transaction outputs
+     *   - `B` is `transaction` size in bytes (length-fee-bounded)
+     */
+    get isV1024000(): boolean {
+        return this._chain.getCallHash('Issue.execute_issue') === 'cafc472ff92fa025f048f1f8753fcba9f5811b914d0d9fa867fa0eb5687d1960'
+    }
+
+    /**
+     * Finalize the issuance of tokens
+     * 
+     * # Arguments
+     * 
+     * * `origin` - sender of the transaction
+     * * `issue_id` - identifier of issue request as output from request_issue
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     * 
+     * ## Complexity:
+     * - `O(H + I + O + B)` where:
+     *   - `H` is the number of hashes in the merkle tree
+     *   - `I` is the number of transaction inputs
+     *   - `O` is the number of transaction outputs
+     *   - `B` is `transaction` size in bytes (length-fee-bounded)
+     */
+    get asV1024000(): {issueId: Uint8Array, merkleProof: v1024000.MerkleProof, transaction: v1024000.Transaction, lengthBound: number} {
+        assert(this.isV1024000)
+        return this._chain.decodeCall(this.call)
+    }
+}
+
+export class RedeemExecuteRedeemCall {
+    private readonly _chain: Chain
+    private readonly call: Call
+
+    constructor(ctx: CallContext)
+    constructor(ctx: ChainContext, call: Call)
+    constructor(ctx: CallContext, call?: Call) {
+        call = call || ctx.call
+        assert(call.name === 'Redeem.execute_redeem')
+        this._chain = ctx._chain
+        this.call = call
+    }
+
+    /**
+     * A Vault calls this function after receiving an RequestRedeem event with their public key.
+     * Before calling the function, the Vault transfers the specific amount of BTC to the BTC address
+     * given in the original redeem request. The Vault completes the redeem with this function.
+     * 
+     * # Arguments
+     * 
+     * * `origin` - anyone executing this redeem request
+     * * `redeem_id` - identifier of redeem request as output from request_redeem
+     * * `tx_id` - transaction hash
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     */
+    get isV1021000(): boolean {
+        return this._chain.getCallHash('Redeem.execute_redeem') === '5d7776c5bd24ce49501544c4460999ab6ba5726c09d6485b0b4da040a4fc203a'
+    }
+
+    /**
+     * A Vault calls this function after receiving an RequestRedeem event with their public key.
+     * Before calling the function, the Vault transfers the specific amount of BTC to the BTC address
+     * given in the original redeem request. The Vault completes the redeem with this function.
+     * 
+     * # Arguments
+     * 
+     * * `origin` - anyone executing this redeem request
+     * * `redeem_id` - identifier of redeem request as output from request_redeem
+     * * `tx_id` - transaction hash
+     * * `tx_block_height` - block number of collateral chain
+     * * `merkle_proof` - raw bytes
+     * * `raw_tx` - raw bytes
+     */
+    get asV1021000(): {redeemId: Uint8Array, merkleProof: Uint8Array, rawTx: Uint8Array} {
+        assert(this.isV1021000)
+        return this._chain.decodeCall(this.call)
+    }
+
+    /**
+     * A Vault calls this function after receiving an RequestRedeem event with their public key.
+     * Before calling the function, the Vault transfers the specific amount of BTC to the BTC address
+     * given in the original redeem request. The Vault completes the redeem with this function.
+     * 
+     * # Arguments
+     * 
+     * * `origin` - anyone executing this redeem request
+     * * `redeem_id` - identifier of redeem request as output from request_redeem
+     * * `tx_id` - transaction hash
+     * * `merkle_proof` - membership proof
+     * * `transaction` - tx containing payment
+     * 
+     * ## Complexity:
+     * - `O(H + I + O + B)` where:
+     *   - `H` is the number of hashes in the merkle tree
+     *   - `I` is the number of transaction inputs
+     *   - `O` is the number of transaction outputs
+     *   - `B` is `transaction` size in bytes (length-fee-bounded)
+     */
+    get isV1024000(): boolean {
+        return this._chain.getCallHash('Redeem.execute_redeem') === '0cc0dbf88e780e6d49052fd94560cc169ebbfdf2e0aec4a257642ccbd33632c1'
+    }
+
+    /**
+     * A Vault calls this function after receiving an RequestRedeem event with their public key.
+     * Before calling the function, the Vault transfers the specific amount of BTC to the BTC address
+     * given in the original redeem request. The Vault completes the redeem with this function.
+     * 
+     * # Arguments
+     * 
+     * * `origin` - anyone executing this redeem request
+     * * `redeem_id` - identifier of redeem request as output from request_redeem
+     * * `tx_id` - transaction hash
+     * * `merkle_proof` - membership proof
+     * * `transaction` - tx containing payment
+     * 
+     * ## Complexity:
+     * - `O(H + I + O + B)` where:
+     *   - `H` is the number of hashes in the merkle tree
+     *   - `I` is the number of transaction inputs
+     *   - `O` is the number of transaction outputs
+     *   - `B` is `transaction` size in bytes (length-fee-bounded)
+     */
+    get asV1024000(): {redeemId: Uint8Array, merkleProof: v1024000.MerkleProof, transaction: v1024000.Transaction, lengthBound: number} {
+        assert(this.isV1024000)
+        return this._chain.decodeCall(this.call)
+    }
+}
+
 export class SystemSetStorageCall {
     private readonly _chain: Chain
     private readonly call: Call
@@ -160,3 +352,35 @@ export class SystemSetStorageCall {
         return this._chain.decodeCall(this.call)
     }
 }
+
+export class VaultRegistryReportUndercollateralizedVaultCall {
+    private readonly _chain: Chain
+    private readonly call: Call
+
+    constructor(ctx: CallContext)
+    constructor(ctx: ChainContext, call: Call)
+    constructor(ctx: CallContext, call?: Call) {
+        call = call || ctx.call
+        assert(call.name === 'VaultRegistry.report_undercollateralized_vault')
+        this._chain = ctx._chain
+        this.call = call
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getCallHash('VaultRegistry.report_undercollateralized_vault') === 'b548ed769c70bc474a892d336b15f47853bd71ba7cb7964bceaaf32b6ef26fe3'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId} {
+        assert(this.isV1020000)
+        return this._chain.decodeCall(this.call)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getCallHash('VaultRegistry.report_undercollateralized_vault') === '0e2320e2a606ec001ae8a6962abb92f69249e8b0c54879fb6c0210b7f5b36d3d'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId} {
+        assert(this.isV1021000)
+        return this._chain.decodeCall(this.call)
+    }
+}
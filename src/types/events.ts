@@ -1004,6 +1004,134 @@ export class LoansWithdrawCollateralEvent {
     }
 }
 
+export class NominationDepositCollateralEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Nomination.DepositCollateral')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Nomination.DepositCollateral') === '1bd43275964219b39b33cf215a8c517d80457df04cf3fa773875955ba5a6f31e'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Nomination.DepositCollateral') === '2b53c5779ee990c87afb16d3b8e497423437471d5b7a20070ddb570c6c1f281e'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class NominationNominationOptInEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Nomination.NominationOptIn')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Nomination.NominationOptIn') === 'b548ed769c70bc474a892d336b15f47853bd71ba7cb7964bceaaf32b6ef26fe3'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Nomination.NominationOptIn') === '0e2320e2a606ec001ae8a6962abb92f69249e8b0c54879fb6c0210b7f5b36d3d'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class NominationNominationOptOutEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Nomination.NominationOptOut')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Nomination.NominationOptOut') === 'b548ed769c70bc474a892d336b15f47853bd71ba7cb7964bceaaf32b6ef26fe3'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Nomination.NominationOptOut') === '0e2320e2a606ec001ae8a6962abb92f69249e8b0c54879fb6c0210b7f5b36d3d'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class NominationWithdrawCollateralEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Nomination.WithdrawCollateral')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Nomination.WithdrawCollateral') === '1bd43275964219b39b33cf215a8c517d80457df04cf3fa773875955ba5a6f31e'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Nomination.WithdrawCollateral') === '2b53c5779ee990c87afb16d3b8e497423437471d5b7a20070ddb570c6c1f281e'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
 export class OracleFeedValuesEvent {
     private readonly _chain: Chain
     private readonly event: Event
@@ -1404,6 +1532,189 @@ export class RedeemRequestRedeemEvent {
     }
 }
 
+export class ReplaceAcceptReplaceEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.AcceptReplace')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.AcceptReplace') === '231cc043a8088cb542bec55d851c18be7414b8a234696824b0a6cb7ab7d9cc8d'
+    }
+
+    get asV1020000(): {replaceId: Uint8Array, oldVaultId: v1020000.VaultId, newVaultId: v1020000.VaultId, amount: bigint, collateral: bigint, btcAddress: v1020000.Address} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Replace.AcceptReplace') === '09639d3321eff36758c3dd9426735fd511c3fdf960de93d2a1739639486fe7fa'
+    }
+
+    get asV1021000(): {replaceId: Uint8Array, oldVaultId: v1021000.VaultId, newVaultId: v1021000.VaultId, amount: bigint, collateral: bigint, btcAddress: v1021000.Address} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class ReplaceCancelReplaceEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.CancelReplace')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.CancelReplace') === '92b7012e1513f2cf13cda2986e30b621602e34bb26651b0bf6d253f3654b904e'
+    }
+
+    get asV1020000(): {replaceId: Uint8Array, newVaultId: v1020000.VaultId, oldVaultId: v1020000.VaultId, griefingCollateral: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Replace.CancelReplace') === '26e57359a7e9983a3b9aad0ac8b0cfcddd5b19cebca17d67f2190b9ec9f725c0'
+    }
+
+    get asV1021000(): {replaceId: Uint8Array, newVaultId: v1021000.VaultId, oldVaultId: v1021000.VaultId, griefingCollateral: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class ReplaceExecuteReplaceEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.ExecuteReplace')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.ExecuteReplace') === '53bb2ecde418747b3963930279d2aaa1aaabeb208cdbd8e7fa4cd6de8ebd7b50'
+    }
+
+    get asV1020000(): {replaceId: Uint8Array, oldVaultId: v1020000.VaultId, newVaultId: v1020000.VaultId} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Replace.ExecuteReplace') === '81884bf92becf2762c85d0ec485b5f639bd2c9a974fa6bf3823b3b488f0c08c9'
+    }
+
+    get asV1021000(): {replaceId: Uint8Array, oldVaultId: v1021000.VaultId, newVaultId: v1021000.VaultId} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class ReplaceReplacePeriodChangeEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.ReplacePeriodChange')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.ReplacePeriodChange') === 'e4e1ffe21a95b5f4c933e4d40a2443e9cc2637c056d780de97e2e7ad5f6a7f59'
+    }
+
+    get asV1020000(): {period: number} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class ReplaceRequestReplaceEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.RequestReplace')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.RequestReplace') === 'f137dfde360f0d16d2f0dc57a910c4f40ca66414f1998bf15c94eeef73a9517b'
+    }
+
+    get asV1020000(): {oldVaultId: v1020000.VaultId, amount: bigint, griefingCollateral: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Replace.RequestReplace') === 'aa34ca50731a84ce492d892fcb18aa8bbe47452d31e68ac29be1823aaab42de8'
+    }
+
+    get asV1021000(): {oldVaultId: v1021000.VaultId, amount: bigint, griefingCollateral: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class ReplaceWithdrawReplaceEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'Replace.WithdrawReplace')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('Replace.WithdrawReplace') === 'a61c1c0b2e1d45d6f06aea499fa2b274c050531e2c805fe824b1fb4cc3aba763'
+    }
+
+    get asV1020000(): {oldVaultId: v1020000.VaultId, withdrawnTokens: bigint, withdrawnGriefingCollateral: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('Replace.WithdrawReplace') === '7f2d8c370b2793930fde3338c997c9357964279c84c6b9e12c747139a8cbc328'
+    }
+
+    get asV1021000(): {oldVaultId: v1021000.VaultId, withdrawnTokens: bigint, withdrawnGriefingCollateral: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
 export class SecurityUpdateActiveBlockEvent {
     private readonly _chain: Chain
     private readonly event: Event
@@ -1977,7 +2288,7 @@ export class TokensWithdrawnEvent {
     }
 }
 
-export class VaultRegistryDecreaseLockedCollateralEvent {
+export class VaultRegistryBanVaultEvent {
     private readonly _chain: Chain
     private readonly event: Event
 
@@ -1985,12 +2296,44 @@ export class VaultRegistryDecreaseLockedCollateralEvent {
     constructor(ctx: ChainContext, event: Event)
     constructor(ctx: EventContext, event?: Event) {
         event = event || ctx.event
-        assert(event.name === 'VaultRegistry.DecreaseLockedCollateral')
+        assert(event.name === 'VaultRegistry.BanVault')
         this._chain = ctx._chain
         this.event = event
     }
 
-    get isV10(): boolean {
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.BanVault') === 'f03aba8619404469f4d7ce7343b28891ee2013dadd5e97f68d0d9606972d1387'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, bannedUntil: number} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.BanVault') === '710f99f00a6b22db70bef320e730cdd9aa7c0de98a5f30a1a9c7a812a2a358b5'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, bannedUntil: number} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryDecreaseLockedCollateralEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.DecreaseLockedCollateral')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV10(): boolean {
         return this._chain.getEventHash('VaultRegistry.DecreaseLockedCollateral') === 'be9cf79f2b95aaa0202d8d1315c938807e1b08b7c78db73bafafd265384acc68'
     }
 
@@ -2036,6 +2379,102 @@ export class VaultRegistryDecreaseLockedCollateralEvent {
     }
 }
 
+export class VaultRegistryDecreaseToBeIssuedTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.DecreaseToBeIssuedTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseToBeIssuedTokens') === 'c5f19419abb90112298a35d5aadcf49e541c9f18314081fee92c24923bd0739e'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, decrease: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseToBeIssuedTokens') === 'a70af0cbcd05577dad0e9e400137d4bf8aaab0f00f90417b68fec6fd4838fe56'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, decrease: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryDecreaseToBeRedeemedTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.DecreaseToBeRedeemedTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseToBeRedeemedTokens') === 'c5f19419abb90112298a35d5aadcf49e541c9f18314081fee92c24923bd0739e'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, decrease: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseToBeRedeemedTokens') === 'a70af0cbcd05577dad0e9e400137d4bf8aaab0f00f90417b68fec6fd4838fe56'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, decrease: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryDecreaseTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.DecreaseTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseTokens') === '6d34c34ad0a40463e387484753ad0ae0578915f7749489fe6ab933c640e3db3d'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, userId: Uint8Array, decrease: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.DecreaseTokens') === '71e6562b2d6d2b8b515577da96a5c95297ed34b087259dce325d6cb8d1ade323'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, userId: Uint8Array, decrease: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
 export class VaultRegistryIncreaseLockedCollateralEvent {
     private readonly _chain: Chain
     private readonly event: Event
@@ -2095,6 +2534,230 @@ export class VaultRegistryIncreaseLockedCollateralEvent {
     }
 }
 
+export class VaultRegistryIncreaseToBeIssuedTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.IncreaseToBeIssuedTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IncreaseToBeIssuedTokens') === '78303b11d31e64508990579d4db913acf599e6702fcdb4ef092389838c4ae796'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, increase: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IncreaseToBeIssuedTokens') === '4fbe606ab7614dc2d915279d2e67586cf34ff9c48f825118c304101d6c4f554b'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, increase: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryIncreaseToBeRedeemedTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.IncreaseToBeRedeemedTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IncreaseToBeRedeemedTokens') === '78303b11d31e64508990579d4db913acf599e6702fcdb4ef092389838c4ae796'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, increase: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IncreaseToBeRedeemedTokens') === '4fbe606ab7614dc2d915279d2e67586cf34ff9c48f825118c304101d6c4f554b'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, increase: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryIssueTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.IssueTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IssueTokens') === '78303b11d31e64508990579d4db913acf599e6702fcdb4ef092389838c4ae796'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, increase: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.IssueTokens') === '4fbe606ab7614dc2d915279d2e67586cf34ff9c48f825118c304101d6c4f554b'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, increase: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryLiquidateVaultEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.LiquidateVault')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.LiquidateVault') === '482179971784aaafdd6799b2321142a30491cf686e27b0582e65010a007ef62c'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, issuedTokens: bigint, toBeIssuedTokens: bigint, toBeRedeemedTokens: bigint, toBeReplacedTokens: bigint, backingCollateral: bigint, status: v1020000.VaultStatus, replaceCollateral: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.LiquidateVault') === 'f305636e503db9919881c62d5b77a62c01e261159005535c1792de4ebd64fcbe'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, issuedTokens: bigint, toBeIssuedTokens: bigint, toBeRedeemedTokens: bigint, toBeReplacedTokens: bigint, backingCollateral: bigint, status: v1021000.VaultStatus, replaceCollateral: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryRedeemTokensEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.RedeemTokens')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokens') === '08c656cc53c5f6afa1e393ad66716ffff6525c86080c7c5a9f9a923ba8cba747'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, redeemedAmount: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokens') === '4555d2f7f9d27247cf5d251f48531d3297f8bfbf0b355193fe417df5a65f5df8'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, redeemedAmount: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryRedeemTokensLiquidatedVaultEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.RedeemTokensLiquidatedVault')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokensLiquidatedVault') === 'a8af31c3fe1a079eaf4089386270de8a0c32abadf9ff7f2f9a7a04878ba59be5'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, tokens: bigint, collateral: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokensLiquidatedVault') === 'c799f138f496d7c11200e06a20a48ef9dc24d011e86fd5640ee615aa311327c9'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, tokens: bigint, collateral: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultRegistryRedeemTokensPremiumEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultRegistry.RedeemTokensPremium')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokensPremium') === 'fec0d5c350e149f371a64d760e8d3815b67f6622c164084ccabf57cc45ef01a1'
+    }
+
+    get asV1020000(): {vaultId: v1020000.VaultId, redeemedAmount: bigint, collateral: bigint, userId: Uint8Array} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultRegistry.RedeemTokensPremium') === '33203fa6242dd961e8051aa92c816c526bf7cdf2fa76b3818b73bd313160f17b'
+    }
+
+    get asV1021000(): {vaultId: v1021000.VaultId, redeemedAmount: bigint, collateral: bigint, userId: Uint8Array} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
 export class VaultRegistryRegisterVaultEvent {
     private readonly _chain: Chain
     private readonly event: Event
@@ -2186,3 +2849,67 @@ export class VaultRegistryRegisterVaultEvent {
         return this._chain.decodeEvent(this.event)
     }
 }
+
+export class VaultStakingDistributeRewardEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultStaking.DistributeReward')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultStaking.DistributeReward') === 'def01864e75b9327b7613d5b11429953404299f167f386941188dec8da662a24'
+    }
+
+    get asV1020000(): {currencyId: v1020000.CurrencyId, vaultId: v1020000.VaultId, amount: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultStaking.DistributeReward') === '5844aca1486597ef12492aa4b81af050266f716157f9f98adb34fb0de65df712'
+    }
+
+    get asV1021000(): {currencyId: v1021000.CurrencyId, vaultId: v1021000.VaultId, amount: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
+
+export class VaultStakingWithdrawRewardEvent {
+    private readonly _chain: Chain
+    private readonly event: Event
+
+    constructor(ctx: EventContext)
+    constructor(ctx: ChainContext, event: Event)
+    constructor(ctx: EventContext, event?: Event) {
+        event = event || ctx.event
+        assert(event.name === 'VaultStaking.WithdrawReward')
+        this._chain = ctx._chain
+        this.event = event
+    }
+
+    get isV1020000(): boolean {
+        return this._chain.getEventHash('VaultStaking.WithdrawReward') === '5cf148ebfa01c885ca2b7221ded07243e40cd526cbbf20ce0c11b3915221ca7b'
+    }
+
+    get asV1020000(): {nonce: number, currencyId: v1020000.CurrencyId, vaultId: v1020000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1020000)
+        return this._chain.decodeEvent(this.event)
+    }
+
+    get isV1021000(): boolean {
+        return this._chain.getEventHash('VaultStaking.WithdrawReward') === '8fa994a3a0dc86b8e22dde3b6653d0a2c16320a2d88b0ad7f6a9408820ab7159'
+    }
+
+    get asV1021000(): {nonce: number, currencyId: v1021000.CurrencyId, vaultId: v1021000.VaultId, nominatorId: Uint8Array, amount: bigint} {
+        assert(this.isV1021000)
+        return this._chain.decodeEvent(this.event)
+    }
+}
@@ -136,6 +136,51 @@ export class IssueIssuePeriodStorage {
     }
 }
 
+export class LoansExchangeRateStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The internal exchange rate from the associated lend token to the underlying currency.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('Loans', 'ExchangeRate') === 'e4a8205ba5bd00bf77e21d23338fe02812c96c9d4c5c8f52854a53fc0d9508cb'
+    }
+
+    /**
+     *  The internal exchange rate from the associated lend token to the underlying currency.
+     */
+    async getAsV1021000(key: v1021000.CurrencyId): Promise<bigint> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'Loans', 'ExchangeRate', key)
+    }
+
+    async getManyAsV1021000(keys: v1021000.CurrencyId[]): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'Loans', 'ExchangeRate', keys.map(k => [k]))
+    }
+
+    async getAllAsV1021000(): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'Loans', 'ExchangeRate')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('Loans', 'ExchangeRate') != null
+    }
+}
+
 export class RedeemRedeemPeriodStorage {
     private readonly _chain: Chain
     private readonly blockHash: string
@@ -175,6 +220,100 @@ export class RedeemRedeemPeriodStorage {
     }
 }
 
+export class ReplaceReplacePeriodStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The time difference in number of blocks between when a replace request is created
+     *  and required completion time by a vault. The replace period has an upper limit
+     *  to prevent griefing of vault collateral.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('Replace', 'ReplacePeriod') === '81bbbe8e62451cbcc227306706c919527aa2538970bd6d67a9969dd52c257d02'
+    }
+
+    /**
+     *  The time difference in number of blocks between when a replace request is created
+     *  and required completion time by a vault. The replace period has an upper limit
+     *  to prevent griefing of vault collateral.
+     */
+    async getAsV1021000(): Promise<number> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'Replace', 'ReplacePeriod')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('Replace', 'ReplacePeriod') != null
+    }
+}
+
+export class TokensAccountsStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The balance of a token type under an account.
+     * 
+     *  NOTE: If the total is ever zero, decrease account ref account.
+     * 
+     *  NOTE: This is only used in the case that this module is used to store
+     *  balances.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('Tokens', 'Accounts') === 'b10a3fffdffc3decc2c45138c8e6806b0ad42d0bf717030839d22904cf243be0'
+    }
+
+    /**
+     *  The balance of a token type under an account.
+     * 
+     *  NOTE: If the total is ever zero, decrease account ref account.
+     * 
+     *  NOTE: This is only used in the case that this module is used to store
+     *  balances.
+     */
+    async getAsV1021000(key1: Uint8Array, key2: v1021000.CurrencyId): Promise<v1021000.Type_394> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'Tokens', 'Accounts', key1, key2)
+    }
+
+    async getManyAsV1021000(keys: [Uint8Array, v1021000.CurrencyId][]): Promise<(v1021000.Type_394)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'Tokens', 'Accounts', keys)
+    }
+
+    async getAllAsV1021000(): Promise<(v1021000.Type_394)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'Tokens', 'Accounts')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('Tokens', 'Accounts') != null
+    }
+}
+
 export class TokensTotalIssuanceStorage {
     private readonly _chain: Chain
     private readonly blockHash: string
@@ -344,3 +483,427 @@ export class TokensTotalIssuanceStorage {
         return this._chain.getStorageItemTypeHash('Tokens', 'TotalIssuance') != null
     }
 }
+
+export class VaultRegistryVaultsStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  Mapping of Vaults, using the respective Vault account identifier as key.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultRegistry', 'Vaults') === '2727d8d7d203daab3b179e901447ebea3d77203babc6cd70e4f4358687682abe'
+    }
+
+    /**
+     *  Mapping of Vaults, using the respective Vault account identifier as key.
+     */
+    async getAsV1020000(key: v1020000.VaultId): Promise<v1020000.Vault | undefined> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultRegistry', 'Vaults', key)
+    }
+
+    async getManyAsV1020000(keys: v1020000.VaultId[]): Promise<(v1020000.Vault | undefined)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultRegistry', 'Vaults', keys.map(k => [k]))
+    }
+
+    async getAllAsV1020000(): Promise<(v1020000.Vault)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultRegistry', 'Vaults')
+    }
+
+    /**
+     *  Mapping of Vaults, using the respective Vault account identifier as key.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultRegistry', 'Vaults') === 'e9884bbf57f4ba1ccfca636a32a8d33cd688e9cd93494272e636972b9fb009d4'
+    }
+
+    /**
+     *  Mapping of Vaults, using the respective Vault account identifier as key.
+     */
+    async getAsV1021000(key: v1021000.VaultId): Promise<v1021000.Vault | undefined> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultRegistry', 'Vaults', key)
+    }
+
+    async getManyAsV1021000(keys: v1021000.VaultId[]): Promise<(v1021000.Vault | undefined)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultRegistry', 'Vaults', keys.map(k => [k]))
+    }
+
+    async getAllAsV1021000(): Promise<(v1021000.Vault)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultRegistry', 'Vaults')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultRegistry', 'Vaults') != null
+    }
+}
+
+export class VaultStakingNonceStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The nonce of the current staking pool, used in force refunds.
+     *  This is a strictly increasing value.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Nonce') === '39f33d74e12d6857b37a88e85017321a2b47120f063967c8557e670b6a3b00f8'
+    }
+
+    /**
+     *  The nonce of the current staking pool, used in force refunds.
+     *  This is a strictly increasing value.
+     */
+    async getAsV1020000(key: v1020000.VaultId): Promise<number> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'Nonce', key)
+    }
+
+    async getManyAsV1020000(keys: v1020000.VaultId[]): Promise<(number)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Nonce', keys.map(k => [k]))
+    }
+
+    async getAllAsV1020000(): Promise<(number)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Nonce')
+    }
+
+    /**
+     *  The nonce of the current staking pool, used in force refunds.
+     *  This is a strictly increasing value.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Nonce') === '6603a1c039da502dd0595ffa07785c0967a2a2db05132e86efb8153d2e008fff'
+    }
+
+    /**
+     *  The nonce of the current staking pool, used in force refunds.
+     *  This is a strictly increasing value.
+     */
+    async getAsV1021000(key: v1021000.VaultId): Promise<number> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'Nonce', key)
+    }
+
+    async getManyAsV1021000(keys: v1021000.VaultId[]): Promise<(number)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Nonce', keys.map(k => [k]))
+    }
+
+    async getAllAsV1021000(): Promise<(number)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Nonce')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Nonce') != null
+    }
+}
+
+export class VaultStakingSlashPerTokenStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  Used to compute the amount to slash from a participant's stake.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashPerToken') === 'fa07d8d01292ddac16ff905676eb243492302e1bd0355fd7422a95c0157a0580'
+    }
+
+    /**
+     *  Used to compute the amount to slash from a participant's stake.
+     */
+    async getAsV1020000(key1: number, key2: v1020000.VaultId): Promise<bigint> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'SlashPerToken', key1, key2)
+    }
+
+    async getManyAsV1020000(keys: [number, v1020000.VaultId][]): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashPerToken', keys)
+    }
+
+    async getAllAsV1020000(): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashPerToken')
+    }
+
+    /**
+     *  Used to compute the amount to slash from a participant's stake.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashPerToken') === '1a778dceb710d848f48bd8eb371316bcd0c20eda1abb44083227ae6fedf66033'
+    }
+
+    /**
+     *  Used to compute the amount to slash from a participant's stake.
+     */
+    async getAsV1021000(key1: number, key2: v1021000.VaultId): Promise<bigint> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'SlashPerToken', key1, key2)
+    }
+
+    async getManyAsV1021000(keys: [number, v1021000.VaultId][]): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashPerToken', keys)
+    }
+
+    async getAllAsV1021000(): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashPerToken')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashPerToken') != null
+    }
+}
+
+export class VaultStakingSlashTallyStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  Accounts for previous changes in stake size.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashTally') === 'c3e0d2648a2c2d95e83e45e771845013c92cd7e284cef6b2796a06afbdf57237'
+    }
+
+    /**
+     *  Accounts for previous changes in stake size.
+     */
+    async getAsV1020000(key1: number, key2: [v1020000.VaultId, Uint8Array]): Promise<bigint> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'SlashTally', key1, key2)
+    }
+
+    async getManyAsV1020000(keys: [number, [v1020000.VaultId, Uint8Array]][]): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashTally', keys)
+    }
+
+    async getAllAsV1020000(): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashTally')
+    }
+
+    /**
+     *  Accounts for previous changes in stake size.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashTally') === 'b3dffc4105d15da957365bb0b8e42c9e9033f59ce35ce4e29290bba1ee756db6'
+    }
+
+    /**
+     *  Accounts for previous changes in stake size.
+     */
+    async getAsV1021000(key1: number, key2: [v1021000.VaultId, Uint8Array]): Promise<bigint> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'SlashTally', key1, key2)
+    }
+
+    async getManyAsV1021000(keys: [number, [v1021000.VaultId, Uint8Array]][]): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashTally', keys)
+    }
+
+    async getAllAsV1021000(): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'SlashTally')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'SlashTally') != null
+    }
+}
+
+export class VaultStakingStakeStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The stake of a participant in this reward pool.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Stake') === 'c3e0d2648a2c2d95e83e45e771845013c92cd7e284cef6b2796a06afbdf57237'
+    }
+
+    /**
+     *  The stake of a participant in this reward pool.
+     */
+    async getAsV1020000(key1: number, key2: [v1020000.VaultId, Uint8Array]): Promise<bigint> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'Stake', key1, key2)
+    }
+
+    async getManyAsV1020000(keys: [number, [v1020000.VaultId, Uint8Array]][]): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Stake', keys)
+    }
+
+    async getAllAsV1020000(): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Stake')
+    }
+
+    /**
+     *  The stake of a participant in this reward pool.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Stake') === 'b3dffc4105d15da957365bb0b8e42c9e9033f59ce35ce4e29290bba1ee756db6'
+    }
+
+    /**
+     *  The stake of a participant in this reward pool.
+     */
+    async getAsV1021000(key1: number, key2: [v1021000.VaultId, Uint8Array]): Promise<bigint> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'Stake', key1, key2)
+    }
+
+    async getManyAsV1021000(keys: [number, [v1021000.VaultId, Uint8Array]][]): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Stake', keys)
+    }
+
+    async getAllAsV1021000(): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'Stake')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'Stake') != null
+    }
+}
+
+export class VaultStakingTotalCurrentStakeStorage {
+    private readonly _chain: Chain
+    private readonly blockHash: string
+
+    constructor(ctx: BlockContext)
+    constructor(ctx: ChainContext, block: Block)
+    constructor(ctx: BlockContext, block?: Block) {
+        block = block || ctx.block
+        this.blockHash = block.hash
+        this._chain = ctx._chain
+    }
+
+    /**
+     *  The total stake - this will increase on deposit and decrease on withdrawal or slashing.
+     */
+    get isV1020000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'TotalCurrentStake') === 'fa07d8d01292ddac16ff905676eb243492302e1bd0355fd7422a95c0157a0580'
+    }
+
+    /**
+     *  The total stake - this will increase on deposit and decrease on withdrawal or slashing.
+     */
+    async getAsV1020000(key1: number, key2: v1020000.VaultId): Promise<bigint> {
+        assert(this.isV1020000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake', key1, key2)
+    }
+
+    async getManyAsV1020000(keys: [number, v1020000.VaultId][]): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake', keys)
+    }
+
+    async getAllAsV1020000(): Promise<(bigint)[]> {
+        assert(this.isV1020000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake')
+    }
+
+    /**
+     *  The total stake - this will increase on deposit and decrease on withdrawal or slashing.
+     */
+    get isV1021000() {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'TotalCurrentStake') === '1a778dceb710d848f48bd8eb371316bcd0c20eda1abb44083227ae6fedf66033'
+    }
+
+    /**
+     *  The total stake - this will increase on deposit and decrease on withdrawal or slashing.
+     */
+    async getAsV1021000(key1: number, key2: v1021000.VaultId): Promise<bigint> {
+        assert(this.isV1021000)
+        return this._chain.getStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake', key1, key2)
+    }
+
+    async getManyAsV1021000(keys: [number, v1021000.VaultId][]): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake', keys)
+    }
+
+    async getAllAsV1021000(): Promise<(bigint)[]> {
+        assert(this.isV1021000)
+        return this._chain.queryStorage(this.blockHash, 'VaultStaking', 'TotalCurrentStake')
+    }
+
+    /**
+     * Checks whether the storage item is defined for the current chain version.
+     */
+    get isExists(): boolean {
+        return this._chain.getStorageItemTypeHash('VaultStaking', 'TotalCurrentStake') != null
+    }
+}
@@ -104,3 +104,28 @@ export interface TokenSymbol_KBTC {
 export interface TokenSymbol_KINT {
     __kind: 'KINT'
 }
+
+export type VaultStatus = VaultStatus_Active | VaultStatus_Liquidated
+
+export interface VaultStatus_Active {
+    __kind: 'Active'
+    value: boolean
+}
+
+export interface VaultStatus_Liquidated {
+    __kind: 'Liquidated'
+}
+
+export interface Vault {
+    id: VaultId
+    status: VaultStatus
+    bannedUntil: (number | undefined)
+    secureCollateralThreshold: (bigint | undefined)
+    toBeIssuedTokens: bigint
+    issuedTokens: bigint
+    toBeRedeemedTokens: bigint
+    toBeReplacedTokens: bigint
+    replaceCollateral: bigint
+    activeReplaceCollateral: bigint
+    liquidatedCollateral: bigint
+}
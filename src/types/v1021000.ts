@@ -249,3 +249,34 @@ export interface JumpModel {
 export interface CurveModel {
     baseRate: bigint
 }
+
+export type VaultStatus = VaultStatus_Active | VaultStatus_Liquidated
+
+export interface VaultStatus_Active {
+    __kind: 'Active'
+    value: boolean
+}
+
+export interface VaultStatus_Liquidated {
+    __kind: 'Liquidated'
+}
+
+export interface Type_394 {
+    free: bigint
+    reserved: bigint
+    frozen: bigint
+}
+
+export interface Vault {
+    id: VaultId
+    status: VaultStatus
+    bannedUntil: (number | undefined)
+    secureCollateralThreshold: (bigint | undefined)
+    toBeIssuedTokens: bigint
+    issuedTokens: bigint
+    toBeRedeemedTokens: bigint
+    toBeReplacedTokens: bigint
+    replaceCollateral: bigint
+    activeReplaceCollateral: bigint
+    liquidatedCollateral: bigint
+}
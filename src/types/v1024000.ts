@@ -115,3 +115,57 @@ export interface VaultCurrencyPair {
 export interface H256Le {
     content: Uint8Array
 }
+
+export interface MerkleProof {
+    blockHeader: BlockHeader
+    flagBits: boolean[]
+    transactionsCount: number
+    hashes: H256Le[]
+}
+
+export interface Transaction {
+    version: number
+    inputs: TransactionInput[]
+    outputs: TransactionOutput[]
+    lockAt: LockTime
+}
+
+export interface TransactionInput {
+    source: TransactionInputSource
+    script: Uint8Array
+    sequence: number
+    witness: Uint8Array[]
+}
+
+export interface TransactionOutput {
+    value: bigint
+    script: Script
+}
+
+export type LockTime = LockTime_Time | LockTime_BlockHeight
+
+export interface LockTime_Time {
+    __kind: 'Time'
+    value: number
+}
+
+export interface LockTime_BlockHeight {
+    __kind: 'BlockHeight'
+    value: number
+}
+
+export type TransactionInputSource = TransactionInputSource_FromOutput | TransactionInputSource_Coinbase
+
+export interface TransactionInputSource_FromOutput {
+    __kind: 'FromOutput'
+    value: [H256Le, number]
+}
+
+export interface TransactionInputSource_Coinbase {
+    __kind: 'Coinbase'
+    value: (number | undefined)
+}
+
+export interface Script {
+    bytes: Uint8Array
+}